@@ -0,0 +1,81 @@
+import { ArweaveClient, ArweaveQuery, getTagValue } from "../index";
+import { NotFound } from "../errors/not-found";
+import { Transport, TransportError, TransportRequest, TransportResponse } from "../api/transport";
+
+jest.setTimeout(30000);
+
+// fake gateways: url host => response status or "hang"
+const gatewayTransport = (gateways: { [host: string]: number | "hang" }, requests: string[]): Transport => {
+  const request = async (request: TransportRequest): Promise<TransportResponse> => {
+    requests.push(request.url);
+    const behavior = gateways[new URL(request.url).host];
+    if (behavior === "hang") {
+      return new Promise((_, reject) => request.signal.addEventListener("abort", () => reject(new Error("aborted"))));
+    }
+    const response = { status: behavior, headers: {}, data: new TextEncoder().encode("data").buffer };
+    if (behavior !== 200) {
+      throw new TransportError("Request failed with status code " + behavior, response);
+    }
+    return response;
+  }
+  return { request, upload: request, download: request };
+}
+
+describe("Testing Arweave gateway failover", () => {
+  it("should fail over to the next gateway & move the failing one to the end", async () => {
+    const requests = [];
+    const arweave = new ArweaveClient({
+      gateways: ["https://down.example", "https://up.example"],
+      transport: gatewayTransport({ "down.example": 502, "up.example": 200 }, requests)
+    });
+
+    const data = await arweave.getTxData("tx");
+    expect(new TextDecoder().decode(data)).toEqual("data");
+    await arweave.getTxData("tx");
+    expect(requests).toEqual(["https://down.example/tx", "https://up.example/tx", "https://up.example/tx"]);
+  });
+
+  it("should fail over on gateway timeout", async () => {
+    const requests = [];
+    const arweave = new ArweaveClient({
+      gateways: ["https://slow.example", "https://up.example"],
+      timeout: 100,
+      transport: gatewayTransport({ "slow.example": "hang", "up.example": 200 }, requests)
+    });
+
+    await arweave.getTxData("tx");
+    expect(requests).toEqual(["https://slow.example/tx", "https://up.example/tx"]);
+  });
+
+  it("should throw the last error when all gateways fail", async () => {
+    const arweave = new ArweaveClient({
+      gateways: ["https://a.example", "https://b.example"],
+      transport: gatewayTransport({ "a.example": 503, "b.example": 404 }, [])
+    });
+
+    await expect(arweave.getTxData("tx")).rejects.toThrow(NotFound);
+  });
+});
+
+describe("Testing Arweave transaction queries", () => {
+  it("should page through the vault interactions", async () => {
+    const queries = [];
+    const pages = {
+      "": { hasNextPage: true, edges: [{ cursor: "c1", node: { id: "tx1", tags: [{ name: "Function-Name", value: "vault:init" }] } }] },
+      "c1": { hasNextPage: false, edges: [{ cursor: "c2", node: { id: "tx2", tags: [{ name: "Function-Name", value: "node:create" }] } }] }
+    };
+    const request = async (request: TransportRequest): Promise<TransportResponse> => {
+      const { variables } = JSON.parse(request.data);
+      queries.push(variables);
+      const { hasNextPage, edges } = pages[variables.after || ""];
+      return { status: 200, headers: {}, data: { data: { transactions: { pageInfo: { hasNextPage }, edges } } } };
+    }
+    const arweaveQuery = new ArweaveQuery(new ArweaveClient({ transport: { request, upload: request, download: request } }));
+
+    const transactions = await arweaveQuery.listAllVaultInteractions("vault", { order: "asc" });
+    expect(transactions.map((transaction) => getTagValue(transaction, "Function-Name"))).toEqual(["vault:init", "node:create"]);
+    expect(queries.length).toEqual(2);
+    expect(queries[0].sort).toEqual("HEIGHT_ASC");
+    expect(queries[0].tags[0]).toEqual({ name: "Vault-Id", values: ["vault"] });
+  });
+});
@@ -0,0 +1,73 @@
+import { throwError } from "../errors/error-factory";
+import {
+  AkordError,
+  BadRequest,
+  Conflict,
+  Forbidden,
+  InsufficientStorage,
+  InternalError,
+  NotFound,
+  PayloadTooLarge,
+  TooManyRequests,
+  Unauthorized
+} from "../errors";
+import { TransportError } from "../api/transport";
+
+const responseError = (status: number, headers = {}) =>
+  new TransportError("Request failed with status: " + status, { status, headers, data: {} });
+
+const mapError = (status: number, error?: Error): AkordError => {
+  try {
+    throwError(status, "message", error, { method: "get", url: "https://api.akord.com/vaults?token=secret" });
+  } catch (error) {
+    return error;
+  }
+}
+
+describe("Testing error mapping", () => {
+  it("should map the response status to the error class", () => {
+    const expected = [
+      [400, BadRequest],
+      [401, Unauthorized],
+      [402, InsufficientStorage],
+      [403, Forbidden],
+      [404, NotFound],
+      [409, Conflict],
+      [413, PayloadTooLarge],
+      [429, TooManyRequests],
+      [500, InternalError],
+      [507, InsufficientStorage]
+    ] as Array<[number, any]>;
+    for (const [status, errorClass] of expected) {
+      expect(mapError(status, responseError(status))).toBeInstanceOf(errorClass);
+    }
+  });
+
+  it("should map the unknown statuses & network failures to internal errors", () => {
+    const teapot = mapError(418, responseError(418));
+    expect(teapot).toBeInstanceOf(InternalError);
+    expect(teapot.statusCode).toEqual(418);
+
+    const networkError = mapError(undefined, new TransportError("socket hang up", undefined, "ECONNRESET"));
+    expect(networkError).toBeInstanceOf(InternalError);
+    expect(networkError.statusCode).toEqual(500);
+  });
+
+  it("should retry the transient errors only", () => {
+    const retryable = [408, 429, 500, 502, 503, 504];
+    const final = [400, 401, 403, 404, 405, 409, 410, 418, 422, 501];
+    retryable.forEach((status) => expect(mapError(status, responseError(status)).retryable).toBeTruthy());
+    final.forEach((status) => expect(mapError(status, responseError(status)).retryable).toBeFalsy());
+
+    expect(mapError(undefined, new TransportError("socket hang up", undefined, "ECONNRESET")).retryable).toBeTruthy();
+    const cancelled = new Error("aborted");
+    cancelled.name = "AbortError";
+    expect(mapError(undefined, cancelled).retryable).toBeFalsy();
+  });
+
+  it("should redact the credentials from the request url", () => {
+    const error = mapError(404, responseError(404));
+    expect(error.method).toEqual("GET");
+    expect(error.url).toEqual("https://api.akord.com/vaults?token=redacted");
+  });
+});
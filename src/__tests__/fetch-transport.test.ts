@@ -0,0 +1,34 @@
+import { FetchTransport } from "../api/fetch-transport";
+import { isCancel, TransportError } from "../api/transport";
+
+const rejectingFetch = (error: any) => (async () => { throw error; }) as unknown as typeof fetch;
+
+const request = { method: "get", url: "https://api.akord.com/vaults" };
+
+describe("Testing fetch transport", () => {
+  it("should wrap the network failures in transport errors", async () => {
+    const networkError = new TypeError("fetch failed");
+    (networkError as any).cause = { code: "ECONNREFUSED" };
+    const error = await new FetchTransport(rejectingFetch(networkError)).request(request).catch((error) => error);
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.code).toEqual("ECONNREFUSED");
+    expect(error.response).toBeUndefined();
+
+    const unknownError = await new FetchTransport(rejectingFetch(new TypeError("Failed to fetch"))).request(request).catch((error) => error);
+    expect(unknownError.code).toEqual("ERR_NETWORK");
+  });
+
+  it("should wrap the aborts & timeouts in transport errors", async () => {
+    const abortError = new Error("This operation was aborted");
+    abortError.name = "AbortError";
+    const canceled = await new FetchTransport(rejectingFetch(abortError)).request(request).catch((error) => error);
+    expect(canceled).toBeInstanceOf(TransportError);
+    expect(isCancel(canceled)).toBeTruthy();
+
+    const timeoutError = new Error("The operation was aborted due to timeout");
+    timeoutError.name = "TimeoutError";
+    const timedOut = await new FetchTransport(rejectingFetch(timeoutError)).request(request).catch((error) => error);
+    expect(timedOut.code).toEqual("ETIMEDOUT");
+    expect(isCancel(timedOut)).toBeFalsy();
+  });
+});
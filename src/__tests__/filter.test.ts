@@ -0,0 +1,42 @@
+import { membershipFilter, nodeFilter, validateFilter, NODE_FILTER_FIELDS } from "../core/filter";
+import { BadRequest } from "../errors/bad-request";
+import { status } from "../constants";
+
+describe("Testing list filter builder", () => {
+  it("should nest the conditions on the same field with and", () => {
+    const filter = nodeFilter()
+      .ne("status", status.REVOKED)
+      .ne("status", status.DELETED)
+      .eq("parentId", "folder")
+      .build();
+    expect(filter).toEqual({
+      status: { ne: status.REVOKED },
+      parentId: { eq: "folder" },
+      and: { status: { ne: status.DELETED } }
+    });
+  });
+
+  it("should compose the filters with or", () => {
+    const filter = membershipFilter()
+      .or(
+        membershipFilter().eq("status", status.ACCEPTED),
+        membershipFilter().eq("status", status.PENDING).eq("role", "OWNER")
+      )
+      .build();
+    expect(filter).toEqual({
+      or: [
+        { status: { eq: status.ACCEPTED } },
+        { status: { eq: status.PENDING }, role: { eq: "OWNER" } }
+      ]
+    });
+  });
+
+  it("should reject invalid filters", () => {
+    expect(() => validateFilter(nodeFilter().in("status", [status.ACTIVE]).build(), NODE_FILTER_FIELDS)).not.toThrow();
+    expect(() => validateFilter({ name: { eq: "name" } }, NODE_FILTER_FIELDS)).toThrow(BadRequest);
+    expect(() => validateFilter({ status: { like: "ACTIVE" } }, NODE_FILTER_FIELDS)).toThrow(BadRequest);
+    expect(() => validateFilter({ status: { in: "ACTIVE" } }, NODE_FILTER_FIELDS)).toThrow(BadRequest);
+    expect(() => validateFilter({ or: { status: { eq: "ACTIVE" } } }, NODE_FILTER_FIELDS)).toThrow(BadRequest);
+    expect(() => validateFilter({ and: { parentId: { beginsWith: 1 } } }, NODE_FILTER_FIELDS)).toThrow(BadRequest);
+  });
+});
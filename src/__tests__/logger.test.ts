@@ -0,0 +1,57 @@
+import { ApiClient } from "../api/api-client";
+import { Transport, TransportError, TransportRequest } from "../api/transport";
+import { NotFound } from "../errors/not-found";
+import { Logger, LogRecord, LogSink } from "../logger";
+
+class MemorySink implements LogSink {
+  records = [] as LogRecord[];
+
+  write(record: LogRecord) {
+    this.records.push(record);
+  }
+}
+
+describe("Testing logger", () => {
+  it("should redact the credential headers & tags", () => {
+    const sink = new MemorySink();
+    const logger = new Logger({ level: "debug", sinks: [sink] });
+    logger.debug("API request", {
+      headers: { "Authorization": "Bearer token", "Content-Type": "application/json", "x-amz-meta-encryptedkey": "key" },
+      tags: [{ name: "Signature", value: "signature" }, { name: "Vault-Id", value: "vault" }],
+      encryptedKey: "key"
+    });
+
+    const [{ fields }] = sink.records;
+    expect(fields.headers).toEqual({ "Authorization": "[REDACTED]", "Content-Type": "application/json", "x-amz-meta-encryptedkey": "[REDACTED]" });
+    expect(fields.tags).toEqual([{ name: "Signature", value: "[REDACTED]" }, { name: "Vault-Id", value: "vault" }]);
+    expect(fields.encryptedKey).toEqual("[REDACTED]");
+  });
+
+  it("should skip the records below the level", () => {
+    const sink = new MemorySink();
+    const logger = new Logger({ level: "info", sinks: [sink] }).child({ vaultId: "vault" });
+    logger.debug("debug");
+    logger.info("info");
+    expect(sink.records.map((record) => record.message)).toEqual(["info"]);
+    expect(sink.records[0].fields.vaultId).toEqual("vault");
+  });
+
+  it("should log the failed api requests with the client logger only", async () => {
+    const sink = new MemorySink();
+    const defaultWrite = jest.spyOn(Logger.default as any, "write");
+    const request = async (request: TransportRequest) => {
+      throw new TransportError("Request failed with status code 404", { status: 404, headers: {}, data: { msg: "Not found" } });
+    };
+    const transport = { request, upload: request, download: request } as Transport;
+
+    const client = new ApiClient()
+      .env({ apiurl: "https://api.akord.com", storageurl: "https://storage.akord.com", transport, logger: new Logger({ level: "debug", sinks: [sink] }) })
+      .public(true);
+    await expect(client.get("https://api.akord.com/vaults/missing")).rejects.toThrow(NotFound);
+
+    expect(sink.records.map((record) => record.message)).toEqual(["API request failed"]);
+    expect(sink.records[0].fields.status).toEqual(404);
+    expect(defaultWrite).not.toHaveBeenCalled();
+    defaultWrite.mockRestore();
+  });
+});
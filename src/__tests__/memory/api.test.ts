@@ -0,0 +1,231 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { AkordWallet } from "@akord/crypto";
+import { BadRequest } from "../../errors/bad-request";
+import { IntegrityError } from "../../errors/integrity-error";
+import { NotFound } from "../../errors/not-found";
+import { StorageType } from "../../types/node";
+import { Tag } from "../../types/contract";
+import { protocolTags } from "../../constants";
+import { FileService } from "../../core/file";
+import { Logger } from "../../logger";
+import { initMemoryInstance } from "./common";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api", () => {
+  let vaultId: string;
+  let folderId: string;
+  let stackId: string;
+
+  beforeAll(async () => {
+    ({ akord } = await initMemoryInstance());
+  });
+
+  it("should create new private vault", async () => {
+    const name = faker.random.words();
+    const result = await akord.vault.create(name);
+    vaultId = result.vaultId;
+
+    const membership = await akord.membership.get(result.membershipId);
+    expect(membership.status).toEqual("ACCEPTED");
+    expect(membership.role).toEqual("OWNER");
+
+    const vault = await akord.vault.get(vaultId);
+    expect(vault.status).toEqual("ACTIVE");
+    expect(vault.public).toEqual(false);
+    expect(vault.name).toEqual(name);
+  });
+
+  it("should register the caller with a placeholder email", async () => {
+    const user = await akord.api.getUser();
+    expect(user.email).toEqual(`${user.address}@memory.local`);
+  });
+
+  it("should filter the caller memberships", async () => {
+    const { items: owned } = await akord.api.getMemberships({ filter: { role: { eq: "OWNER" } } });
+    expect(owned.length).toEqual(1);
+
+    const { items: contributed } = await akord.api.getMemberships({ filter: { role: { eq: "CONTRIBUTOR" } } });
+    expect(contributed.length).toEqual(0);
+  });
+
+  it("should create folder & stack within the folder", async () => {
+    const folderName = faker.random.words();
+    folderId = (await akord.folder.create(vaultId, folderName)).folderId;
+
+    const name = faker.random.words();
+    const content = faker.lorem.sentences();
+    stackId = (await akord.stack.create(vaultId, [content], name, { parentId: folderId, mimeType: "text/plain" })).stackId;
+
+    const stack = await akord.stack.get(stackId);
+    expect(stack.name).toEqual(name);
+    expect(stack.parentId).toEqual(folderId);
+
+    const { data } = await akord.stack.getVersion(stackId);
+    expect(Buffer.from(data).toString()).toEqual(content);
+
+    const stacks = await akord.stack.listAll(vaultId, { parentId: folderId });
+    expect(stacks.length).toEqual(1);
+    expect(stacks[0].name).toEqual(name);
+  });
+
+  it("should verify the stack file hash & signature", async () => {
+    await akord.stack.verify(stackId);
+    const { data } = await akord.stack.getVersion(stackId, 0, { verify: true });
+    expect(data.byteLength).toBeGreaterThan(0);
+
+    // tamper with the stored ciphertext
+    const resourceUrl = await akord.stack.getUri(stackId, StorageType.S3);
+    const file = (akord.api as any).files.get(resourceUrl);
+    new Uint8Array(file.data)[0] ^= 1;
+
+    await expect(akord.stack.verify(stackId)).rejects.toThrow(IntegrityError);
+    await expect(akord.stack.getVersion(stackId, 0, { verify: true })).rejects.toThrow(IntegrityError);
+    new Uint8Array(file.data)[0] ^= 1;
+  });
+
+  it("should rename & revoke the stack", async () => {
+    const name = faker.random.words();
+    await akord.stack.rename(stackId, name);
+
+    const stack = await akord.stack.get(stackId);
+    expect(stack.name).toEqual(name);
+
+    await akord.stack.revoke(stackId);
+    const stacks = await akord.stack.listAll(vaultId);
+    expect(stacks.length).toEqual(0);
+  });
+
+  it("should create memo", async () => {
+    const message = faker.lorem.sentences();
+    const { memoId } = await akord.memo.create(vaultId, message);
+
+    const memo = await akord.memo.get(memoId);
+    expect(memo.versions[0].message).toEqual(message);
+  });
+
+  it("should list vault transactions", async () => {
+    const transactions = await akord.contract.listAll(vaultId);
+    expect(transactions.length).toEqual(6);
+    expect(transactions[0].function).toEqual("vault:init");
+
+    const { items, nextToken } = await akord.contract.list(vaultId, { limit: 4 });
+    expect(items.length).toEqual(4);
+    const nextPage = await akord.contract.list(vaultId, { limit: 4, nextToken });
+    expect(nextPage.items.length).toEqual(2);
+    expect(nextPage.nextToken).toEqual("");
+  });
+
+  it("should filter vault transactions", async () => {
+    const nodeUpdates = await akord.contract.listAll(vaultId, { filter: { function: { eq: "node:update" } } });
+    expect(nodeUpdates.length).toEqual(1);
+
+    const [first] = await akord.contract.listAll(vaultId);
+    const later = await akord.contract.listAll(vaultId, { filter: { postedAt: { gt: first.postedAt } } });
+    expect(later.every((transaction) => transaction.postedAt > first.postedAt)).toBeTruthy();
+  });
+
+  it("should fail renaming the archived vault", async () => {
+    await akord.vault.archive(vaultId);
+
+    const name = faker.random.words();
+    await expect(async () =>
+      await akord.vault.rename(vaultId, name)
+    ).rejects.toThrow(BadRequest);
+  });
+});
+
+describe("Testing in-memory api chunked file verification", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    // each chunk is stored as a separate file: {resourceUrl}_{chunkNumber}
+    const chunks = ["first chunk", "second chunk"];
+    for (let chunkNumber = 0; chunkNumber < chunks.length; chunkNumber++) {
+      const { stackId } = await akord.stack.create(vaultId, [chunks[chunkNumber]], "chunk.txt", { mimeType: "text/plain" });
+      const resourceUrl = await akord.stack.getUri(stackId, StorageType.S3);
+      (api as any).files.set(`chunked_${chunkNumber}`, (api as any).files.get(resourceUrl));
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should verify the hash & signature of each chunk", async () => {
+    const options = { isChunked: true, numberOfChunks: 2, verify: true };
+    const data = await akord.file.get("chunked", vaultId, options);
+    expect(Buffer.from(data).toString()).toEqual("first chunksecond chunk");
+
+    new Uint8Array((api as any).files.get("chunked_1").data)[0] ^= 1;
+    await expect(akord.file.get("chunked", vaultId, options)).rejects.toThrow(IntegrityError);
+    new Uint8Array((api as any).files.get("chunked_1").data)[0] ^= 1;
+  });
+
+  it("should skip the signature check of the chunks uploaded before the chunks were signed", async () => {
+    for (const chunkNumber of [0, 1]) {
+      const file = (api as any).files.get(`chunked_${chunkNumber}`);
+      (api as any).files.set(`legacy_${chunkNumber}`, {
+        ...file,
+        tags: file.tags.filter((tag: Tag) => tag.name !== protocolTags.SIGNATURE && tag.name !== protocolTags.SIGNER_ADDRESS)
+      });
+    }
+    const warn = jest.spyOn(Logger.prototype, "warn");
+    const data = await akord.file.get("legacy", vaultId, { isChunked: true, numberOfChunks: 2, verify: true });
+    expect(Buffer.from(data).toString()).toEqual("first chunksecond chunk");
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should rethrow the verification failures", async () => {
+    jest.spyOn(FileService.prototype as any, "getMemberSigningKey").mockRejectedValueOnce(new NotFound("Could not find the member"));
+    await expect(akord.file.get("chunked", vaultId, { isChunked: true, numberOfChunks: 2, verify: true }))
+      .rejects.toThrow(NotFound);
+  });
+});
+
+describe("Testing in-memory api notifications", () => {
+  let ownerWallet: AkordWallet;
+  let memberWallet: AkordWallet;
+  let api: MemoryApi;
+  let vaultId: string;
+  let vaultName: string;
+
+  beforeAll(async () => {
+    ownerWallet = await AkordWallet.create();
+    memberWallet = await AkordWallet.create();
+    api = new MemoryApi();
+    await api.addUser(memberWallet, "member@akord.com");
+    akord = new Akord(ownerWallet, { api });
+  });
+
+  it("should notify the invitee", async () => {
+    vaultName = faker.random.words();
+    vaultId = (await akord.vault.create(vaultName)).vaultId;
+    await akord.membership.invite(vaultId, "member@akord.com", "CONTRIBUTOR");
+
+    expect((await akord.notification.listAll()).length).toEqual(0);
+
+    const member = new Akord(memberWallet, { api });
+    const notifications = await member.notification.listAll({ vaultId });
+    expect(notifications.length).toEqual(1);
+    expect(notifications[0].status).toEqual("UNREAD");
+    expect(notifications[0].vaultName).toEqual(vaultName);
+    expect(notifications[0].owner).toEqual(await ownerWallet.getAddress());
+  });
+
+  it("should mark notifications as read & delete them", async () => {
+    const member = new Akord(memberWallet, { api });
+    await member.notification.markAllAsRead(vaultId);
+    const [notification] = await member.notification.listAll();
+    expect(notification.status).toEqual("READ");
+
+    await member.notification.delete(notification.id);
+    expect((await member.notification.listAll()).length).toEqual(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { AkordWallet } from "@akord/crypto";
+import { initMemoryInstance } from "./common";
+import { Folder } from "../../types/node";
+import { Vault } from "../../types/vault";
+import { IncorrectEncryptionKey } from "../../errors/incorrect-encryption-key";
+import { VaultContextCache } from "../../core/vault-context-cache";
+import { Subject } from "rxjs";
+
+let akord: Akord;
+let wallet: AkordWallet;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api vault context cache", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+
+  beforeAll(async () => {
+    ({ akord, api, wallet } = await initMemoryInstance({ cache: true }));
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reuse the vault context", async () => {
+    const getVault = jest.spyOn(api, "getVault");
+    await akord.folder.create(vaultId, faker.random.words());
+    await akord.folder.create(vaultId, faker.random.words());
+    await akord.memo.create(vaultId, faker.lorem.sentences());
+    expect(getVault).toHaveBeenCalledTimes(1);
+  });
+
+  it("should invalidate the vault context on vault mutations", async () => {
+    const getVault = jest.spyOn(api, "getVault");
+    await akord.vault.rename(vaultId, faker.random.words());
+    getVault.mockClear();
+
+    await akord.folder.create(vaultId, faker.random.words());
+    expect(getVault).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop the vault context on incorrect encryption key", async () => {
+    const { folderId } = await akord.folder.create(vaultId, faker.random.words());
+    const getVault = jest.spyOn(api, "getVault");
+    jest.spyOn(Folder.prototype, "decrypt").mockRejectedValueOnce(new Error("Incorrect key"));
+    await expect(akord.folder.get(folderId)).rejects.toThrow(IncorrectEncryptionKey);
+
+    await akord.folder.create(vaultId, faker.random.words());
+    expect(getVault).toHaveBeenCalledTimes(1);
+  });
+
+  it("should scope the invalidation to the cache instance", async () => {
+    const cache = new VaultContextCache();
+    const other = new VaultContextCache();
+    const load = jest.fn(async () => ({ vault: new Vault({ id: "vault", public: true }, []) }));
+    await cache.get("vault", wallet, load);
+    await other.get("vault", wallet, load);
+
+    other.invalidate("vault");
+    await cache.get("vault", wallet, load);
+    await other.get("vault", wallet, load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+  it("should not invalidate the vault contexts of the other clients", async () => {
+    // the in-memory api resolves the caller from the last configured wallet, share it between the clients
+    const otherApi = new MemoryApi();
+    const otherAkord = new Akord(wallet, { cache: true, api: otherApi });
+    const otherVaultId = (await otherAkord.vault.create(faker.random.words())).vaultId;
+    await otherAkord.folder.create(otherVaultId, faker.random.words());
+    await akord.folder.create(vaultId, faker.random.words());
+    const getVault = jest.spyOn(api, "getVault");
+    const otherGetVault = jest.spyOn(otherApi, "getVault");
+
+    await otherAkord.vault.rename(otherVaultId, faker.random.words());
+    await akord.folder.create(vaultId, faker.random.words());
+    expect(getVault).toHaveBeenCalledTimes(0);
+
+    await otherAkord.folder.create(otherVaultId, faker.random.words());
+    expect(otherGetVault).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop the invalidation once disposed", async () => {
+    const vaultChanges = new Subject<string>();
+    const cache = new VaultContextCache(undefined, vaultChanges);
+    const load = jest.fn(async () => ({ vault: new Vault({ id: "vault", public: true }, []) }));
+    await cache.get("vault", wallet, load);
+
+    vaultChanges.next("vault");
+    await cache.get("vault", wallet, load);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    cache.dispose();
+    await cache.get("vault", wallet, load);
+    vaultChanges.next("vault");
+    await cache.get("vault", wallet, load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,10 @@
+import { Akord, MemoryApi } from "../../index";
+import { AkordWallet } from "@akord/crypto";
+import { ClientConfig } from "../../config";
+
+export async function initMemoryInstance(config: ClientConfig = {}): Promise<{ akord: Akord, api: MemoryApi, wallet: AkordWallet }> {
+  const wallet = await AkordWallet.create();
+  const api = new MemoryApi();
+  const akord = new Akord(wallet, { ...config, api });
+  return { akord, api, wallet };
+}
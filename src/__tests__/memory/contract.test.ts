@@ -0,0 +1,198 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { actionRefs, functions, objectType, protocolTags } from "../../constants";
+import { Tag } from "../../types/contract";
+import { sortInteractionTransactions } from "../../core/contract-evaluator";
+import { AkordWallet } from "@akord/crypto";
+import { initMemoryInstance } from "./common";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api contract evaluation", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+  let folderId: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderId = (await akord.folder.create(vaultId, faker.random.words())).folderId;
+    await akord.folder.rename(folderId, faker.random.words());
+    await akord.memo.create(vaultId, faker.random.words());
+  });
+
+  it("should rebuild the contract state from the interactions", async () => {
+    const { state, errors } = await akord.contract.evaluate(vaultId);
+    expect(errors).toEqual([]);
+    expect(state.nodes.length).toEqual(2);
+    expect(state.folders[0].data.length).toEqual(2);
+
+    const { isValid, diff } = await akord.contract.verify(vaultId);
+    expect(isValid).toBeTruthy();
+    expect(diff).toEqual([]);
+  });
+
+  it("should skip the interactions failing the role checks", async () => {
+    const interactions = await api.getContractInteractions(vaultId);
+    const forged = { ...interactions[interactions.length - 1], id: "forged", caller: "unknown-address" };
+
+    const { errors } = await akord.contract.evaluate(vaultId, { interactions: interactions.concat(forged) });
+    expect(errors.map((error) => error.id)).toEqual(["forged"]);
+  });
+
+  it("should leave no partial changes of the rejected interactions", async () => {
+    const interactions = await api.getContractInteractions(vaultId);
+    const { state } = await akord.contract.evaluate(vaultId, { interactions });
+    const [owner] = state.memberships;
+    // rotates the keys of the owner, then fails on the revoked membership lookup
+    const revoke = {
+      ...interactions[0],
+      id: "revoke",
+      input: { function: functions.MEMBERSHIP_REVOKE, data: [{ id: owner.id, value: owner.data[0] }] },
+      tags: [new Tag(protocolTags.VAULT_ID, vaultId), new Tag(protocolTags.MEMBERSHIP_ID, "missing-membership")]
+    };
+
+    const evaluation = await akord.contract.evaluate(vaultId, { interactions: interactions.concat(revoke) });
+    expect(evaluation.errors.map((error) => error.id)).toEqual(["revoke"]);
+    expect(evaluation.state.memberships[0].data).toEqual(owner.data);
+  });
+
+  it("should order the interactions within the same block by timestamp & id", () => {
+    const transaction = (id: string, height: number, timestamp: string) =>
+      ({ id, block: height && { height, timestamp: 0 }, tags: [new Tag(protocolTags.TIMESTAMP, timestamp)] }) as any;
+    const ordered = sortInteractionTransactions([
+      transaction("pending", null, "1"),
+      transaction("b", 2, "5"),
+      transaction("a", 2, "5"),
+      transaction("c", 2, "4"),
+      transaction("d", 1, "9")
+    ]);
+    expect(ordered.map((transaction) => transaction.id)).toEqual(["d", "c", "a", "b", "pending"]);
+  });
+
+  it("should detect the server state diverging from the interactions", async () => {
+    (api as any).vaults.get(vaultId).nodes.find((node: any) => node.id === folderId).status = "REVOKED";
+
+    const { isValid, diff } = await akord.contract.verify(vaultId);
+    expect(isValid).toBeFalsy();
+    expect(diff).toEqual([{ path: `nodes.${folderId}.status`, local: "ACTIVE", remote: "REVOKED" }]);
+  });
+});
+
+describe("Testing in-memory api contract membership checks", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+  let ownerMembershipId: string;
+  let memberMembershipId: string;
+  let inviteeMembershipId: string;
+  let otherInviteeMembershipId: string;
+  let memberAddress: string;
+  let inviteeAddress: string;
+
+  beforeAll(async () => {
+    const ownerWallet = await AkordWallet.create();
+    const memberWallet = await AkordWallet.create();
+    const inviteeWallet = await AkordWallet.create();
+    const otherInviteeWallet = await AkordWallet.create();
+    api = new MemoryApi();
+    await api.addUser(memberWallet, "member@akord.com");
+    await api.addUser(inviteeWallet, "invitee@akord.com");
+    await api.addUser(otherInviteeWallet, "other@akord.com");
+    memberAddress = await memberWallet.getAddress();
+    inviteeAddress = await inviteeWallet.getAddress();
+
+    akord = new Akord(ownerWallet, { api });
+    ({ vaultId, membershipId: ownerMembershipId } = await akord.vault.create(faker.random.words()));
+    ({ membershipId: memberMembershipId } = await akord.membership.invite(vaultId, "member@akord.com", "CONTRIBUTOR"));
+    ({ membershipId: inviteeMembershipId } = await akord.membership.invite(vaultId, "invitee@akord.com", "CONTRIBUTOR"));
+    ({ membershipId: otherInviteeMembershipId } = await akord.membership.invite(vaultId, "other@akord.com", "CONTRIBUTOR"));
+  });
+
+  const forge = (id: string, caller: string, fn: functions, membershipId: string, interactions: any[]) => ({
+    ...interactions[0],
+    id,
+    caller,
+    input: { function: fn },
+    tags: [new Tag(protocolTags.VAULT_ID, vaultId), new Tag(protocolTags.MEMBERSHIP_ID, membershipId)]
+  });
+
+  it("should reject the changes of another member's membership", async () => {
+    const interactions = await api.getContractInteractions(vaultId);
+    const forged = [
+      forge("member-accept", memberAddress, functions.MEMBERSHIP_ACCEPT, memberMembershipId, interactions),
+      forge("reject", memberAddress, functions.MEMBERSHIP_REJECT, ownerMembershipId, interactions),
+      forge("update", memberAddress, functions.MEMBERSHIP_UPDATE, ownerMembershipId, interactions),
+      forge("pending-reject", inviteeAddress, functions.MEMBERSHIP_REJECT, ownerMembershipId, interactions),
+      forge("accept", inviteeAddress, functions.MEMBERSHIP_ACCEPT, otherInviteeMembershipId, interactions)
+    ];
+
+    const { state, errors } = await akord.contract.evaluate(vaultId, { interactions: interactions.concat(forged) });
+    expect(errors.map((error) => error.id)).toEqual(["reject", "update", "pending-reject", "accept"]);
+    expect(state.memberships.find((membership) => membership.id === memberMembershipId).status).toEqual("ACCEPTED");
+    expect(state.memberships.find((membership) => membership.id === ownerMembershipId).status).toEqual("ACCEPTED");
+    expect(state.memberships.find((membership) => membership.id === otherInviteeMembershipId).status).toEqual("PENDING");
+  });
+
+  it("should accept the invitation by the invitee", async () => {
+    const interactions = await api.getContractInteractions(vaultId);
+    const accept = forge("accept", inviteeAddress, functions.MEMBERSHIP_ACCEPT, inviteeMembershipId, interactions);
+
+    const { state, errors } = await akord.contract.evaluate(vaultId, { interactions: interactions.concat(accept) });
+    expect(errors).toEqual([]);
+    expect(state.memberships.find((membership) => membership.id === inviteeMembershipId).status).toEqual("ACCEPTED");
+  });
+});
+
+describe("Testing in-memory api audit log", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+  let folderName: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderName = faker.random.words();
+    const { folderId } = await akord.folder.create(vaultId, folderName);
+    await akord.folder.revoke(folderId);
+  });
+
+  it("should resolve the decrypted object names", async () => {
+    const log = await akord.contract.auditLog(vaultId);
+    expect(log.map((group) => group.actionRef)).toEqual(["VAULT_CREATE", "FOLDER_CREATE", "FOLDER_REVOKE"]);
+    expect(log[1].entries[0].object.name).toEqual(folderName);
+    expect(log[2].entries[0].object.name).toEqual(folderName);
+  });
+
+  it("should filter by action & date range", async () => {
+    const log = await akord.contract.auditLog(vaultId, { actionRefs: [actionRefs.FOLDER_REVOKE], to: new Date() });
+    expect(log.length).toEqual(1);
+
+    const future = await akord.contract.auditLog(vaultId, { from: Date.now() + 60000 });
+    expect(future).toEqual([]);
+  });
+
+  it("should pass the filters to the transaction listing", async () => {
+    const getTransactions = jest.spyOn(api, "getTransactions");
+    const from = new Date("2023-01-01");
+    await akord.contract.auditLog(vaultId, { actionRefs: [actionRefs.FOLDER_REVOKE], objectTypes: [objectType.FOLDER], from });
+    expect(getTransactions.mock.calls[0][1].filter).toEqual({
+      actionRef: { in: [actionRefs.FOLDER_REVOKE] },
+      objectType: { in: [objectType.FOLDER] },
+      postedAt: { gt: JSON.stringify(from.getTime() - 1) }
+    });
+    getTransactions.mockRestore();
+  });
+
+  it("should export to CSV & JSON", async () => {
+    const csv = await akord.contract.exportAuditLog(vaultId, "csv");
+    const rows = csv.split("\r\n");
+    expect(rows.length).toEqual(4);
+    expect(rows[0]).toEqual("groupId,transactionId,postedAt,function,actionRef,actorAddress,actorName,objectId,objectType,objectName");
+    expect(rows[2]).toContain("FOLDER_CREATE");
+
+    const json = JSON.parse(await akord.contract.exportAuditLog(vaultId, "json"));
+    expect(json.length).toEqual(3);
+  });
+});
@@ -0,0 +1,65 @@
+import { Akord, MemoryApi, nodeFilter } from "../../index";
+import faker from '@faker-js/faker';
+import { BadRequest } from "../../errors/bad-request";
+import { initMemoryInstance } from "./common";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api list iteration", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+  let folderIds: string[];
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderIds = [];
+    for (let i = 0; i < 3; i++) {
+      folderIds.push((await akord.folder.create(vaultId, faker.random.words())).folderId);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should iterate through all the pages", async () => {
+    const ids = [];
+    for await (const folder of akord.folder.iterate(vaultId, { limit: 1 })) {
+      ids.push(folder.id);
+    }
+    expect(ids).toEqual(folderIds);
+
+    const memberships = [];
+    for await (const membership of akord.membership.iterate(vaultId)) {
+      memberships.push(membership);
+    }
+    expect(memberships.length).toEqual(1);
+  });
+
+  it("should collect the decryption errors without aborting the iteration", async () => {
+    (api as any).vaults.get(vaultId).nodes.find((node: any) => node.id === folderIds[1]).name = "corrupted";
+
+    const folders = akord.folder.iterate(vaultId, { limit: 1 });
+    const ids = [];
+    for await (const folder of folders) {
+      ids.push(folder.id);
+    }
+    expect(ids).toEqual([folderIds[0], folderIds[2]]);
+    expect(folders.errors.map((error) => error.id)).toEqual([folderIds[1]]);
+  });
+
+  it("should validate the list filter before calling the api", async () => {
+    const getNodesByVaultId = jest.spyOn(api, "getNodesByVaultId");
+    await expect(akord.folder.list(vaultId, { filter: { name: { eq: "folder" } } } as any)).rejects.toThrow(BadRequest);
+    expect(getNodesByVaultId).not.toHaveBeenCalled();
+
+    const { items } = await akord.folder.list(vaultId, {
+      shouldDecrypt: false,
+      filter: nodeFilter().in("id", [folderIds[0], folderIds[2]]).build()
+    });
+    expect(items.map((folder) => folder.id)).toEqual([folderIds[0], folderIds[2]]);
+  });
+});
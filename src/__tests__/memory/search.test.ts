@@ -0,0 +1,127 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { initMemoryInstance } from "./common";
+import { ContractService } from "../../core/contract";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api full-text search", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+  let folderId: string;
+  let memoId: string;
+  let noteId: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderId = (await akord.folder.create(vaultId, "Quarterly reports")).folderId;
+    memoId = (await akord.memo.create(vaultId, "Reports are due on Friday")).memoId;
+    noteId = (await akord.note.create(vaultId, "# Budget\nThe marketing budget for the next quarter", "planning.md")).noteId;
+  });
+
+  it("should search the names, memo messages & note contents", async () => {
+    const reports = await akord.search(vaultId, "reports");
+    expect(reports.map((result) => result.id).sort()).toEqual([folderId, memoId].sort());
+
+    const budget = await akord.search(vaultId, "marketing budg");
+    expect(budget.map((result) => result.id)).toEqual([noteId]);
+
+    const folders = await akord.search(vaultId, "report", { types: ["Folder"] });
+    expect(folders).toEqual([{ id: folderId, type: "Folder", name: "Quarterly reports", score: 1 }]);
+  });
+
+  it("should store the index built from scratch on search only", async () => {
+    const [membership] = await api.getMembers(vaultId);
+    expect(membership.searchIndex).toBeDefined();
+
+    const transactions = await akord.contract.listAll(vaultId);
+    await akord.search(vaultId, "reports");
+    await akord.memo.create(vaultId, "Weekly sync");
+    const withMemo = await akord.contract.listAll(vaultId);
+    expect(withMemo.length).toEqual(transactions.length + 1);
+    expect((await akord.search(vaultId, "weekly")).length).toEqual(1);
+    expect(await akord.contract.listAll(vaultId)).toEqual(withMemo);
+  });
+
+  it("should store the index encrypted in the membership state", async () => {
+    const { indexed } = await akord.searchIndex.update(vaultId);
+    expect(indexed).toEqual(1);
+
+    const [membership] = await api.getMembers(vaultId);
+    const state = await api.getNodeState(membership.searchIndex);
+    expect(state.index).not.toContain("marketing");
+  });
+
+  it("should move the cursor to the latest transaction regardless of the listing order", async () => {
+    const listAll = ContractService.prototype.listAll;
+    jest.spyOn(ContractService.prototype, "listAll").mockImplementation(async function (id, options) {
+      return (await listAll.call(this, id, options)).reverse();
+    });
+    await akord.folder.create(vaultId, "Contracts");
+    await akord.folder.create(vaultId, "Drafts");
+    expect((await akord.searchIndex.update(vaultId)).indexed).toEqual(2);
+    expect((await akord.searchIndex.update(vaultId)).indexed).toEqual(0);
+    jest.restoreAllMocks();
+  });
+
+  it("should reindex the renamed & revoked nodes only", async () => {
+    await akord.folder.rename(folderId, "Annual summaries");
+    await akord.memo.revoke(memoId);
+
+    const { indexed } = await akord.searchIndex.update(vaultId);
+    expect(indexed).toEqual(2);
+    expect(await akord.search(vaultId, "reports")).toEqual([]);
+    expect((await akord.search(vaultId, "annual")).map((result) => result.id)).toEqual([folderId]);
+  });
+});
+
+describe("Testing in-memory api tag search", () => {
+  let api: MemoryApi;
+  let firstVaultId: string;
+  let secondVaultId: string;
+  let folderId: string;
+  let memoId: string;
+  let otherFolderId: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance());
+    firstVaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    secondVaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderId = (await akord.folder.create(firstVaultId, "Invoices", { tags: ["finance", "2023"] })).folderId;
+    memoId = (await akord.memo.create(firstVaultId, "Pay the invoices", { tags: ["Finance"] })).memoId;
+    otherFolderId = (await akord.folder.create(secondVaultId, "Budget", { tags: ["finance.2024"] })).folderId;
+    await akord.folder.create(secondVaultId, "Holidays", { tags: ["travel"] });
+  });
+
+  it("should group the decrypted nodes by vault", async () => {
+    const { items, errors } = await akord.search.byTags(["finance"]);
+    expect(errors).toEqual([]);
+    expect(items.length).toEqual(2);
+    const first = items.find((item) => item.vaultId === firstVaultId);
+    expect(first.folders.map((folder) => folder.name)).toEqual(["Invoices"]);
+    expect(first.memos.map((memo) => memo.id)).toEqual([memoId]);
+    const second = items.find((item) => item.vaultId === secondVaultId);
+    expect(second.folders.map((folder) => folder.id)).toEqual([otherFolderId]);
+    expect(second.stacks).toEqual([]);
+  });
+
+  it("should apply the search criteria, types & vault ids", async () => {
+    const every = await akord.search.byTags(["finance", "2023"]);
+    expect(every.items.map((item) => item.folders.map((folder) => folder.id))).toEqual([[folderId]]);
+
+    const some = await akord.search.byTags(["2023", "2024"], { criteria: "CONTAINS_SOME", types: ["Folder"] });
+    expect(some.items.length).toEqual(2);
+
+    const single = await akord.search.byTags(["finance"], { vaultIds: [secondVaultId], concurrency: 1 });
+    expect(single.items.map((item) => item.vaultId)).toEqual([secondVaultId]);
+  });
+
+  it("should report the vaults that could not be searched", async () => {
+    const { items, errors } = await akord.search.byTags(["finance"], { vaultIds: [firstVaultId, "missing-vault"] });
+    expect(items.map((item) => item.vaultId)).toEqual([firstVaultId]);
+    expect(errors.map((error) => error.id)).toEqual(["missing-vault"]);
+  });
+});
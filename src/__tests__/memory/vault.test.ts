@@ -0,0 +1,289 @@
+import { Akord } from "../../index";
+import faker from '@faker-js/faker';
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { initMemoryInstance } from "./common";
+import { LocalDirectoryEntry, runBatches } from "../../core/directory-upload";
+import { createArchiveWriter } from "../../core/archive";
+import { BadRequest } from "../../errors/bad-request";
+import { Folder, StorageType } from "../../types/node";
+import { getExportPaths } from "../../core/vault-export";
+import { FileService } from "../../core/file";
+import { StackService } from "../../core/stack";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api vault clone", () => {
+  let sourceVaultId: string;
+  let folderId: string;
+  let subfolderId: string;
+  let stackId: string;
+  let memoId: string;
+  let noteId: string;
+
+  beforeAll(async () => {
+    ({ akord } = await initMemoryInstance());
+    sourceVaultId = (await akord.vault.create("Project template", { description: "Kick-off materials" })).vaultId;
+    folderId = (await akord.folder.create(sourceVaultId, "Design")).folderId;
+    subfolderId = (await akord.folder.create(sourceVaultId, "Drafts", { parentId: folderId })).folderId;
+    stackId = (await akord.stack.create(sourceVaultId, ["first draft"], "brief.txt", { parentId: subfolderId, mimeType: "text/plain" })).stackId;
+    await akord.stack.uploadRevision(stackId, ["second draft"], { name: "brief-v2.txt", mimeType: "text/plain" });
+    memoId = (await akord.memo.create(sourceVaultId, "Welcome to the project")).memoId;
+    noteId = (await akord.note.create(sourceVaultId, "# Agenda", "agenda.md")).noteId;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should recreate the folder hierarchy & stack versions", async () => {
+    const progress = [] as number[];
+    const { vaultId, mapping, errors, cancelled } = await akord.vault.clone(sourceVaultId, "New project", {
+      progressHook: (percentage) => progress.push(percentage)
+    });
+    expect(errors).toEqual([]);
+    expect(cancelled).toEqual(0);
+    expect(Object.keys(mapping).sort()).toEqual([folderId, subfolderId, stackId].sort());
+    expect(progress[progress.length - 1]).toEqual(100);
+
+    const vault = await akord.vault.get(vaultId);
+    expect(vault.name).toEqual("New project");
+    expect(vault.description).toEqual("Kick-off materials");
+
+    const subfolder = await akord.folder.get(mapping[subfolderId]);
+    expect(subfolder.parentId).toEqual(mapping[folderId]);
+    const stack = await akord.stack.get(mapping[stackId]);
+    expect(stack.parentId).toEqual(mapping[subfolderId]);
+    expect(stack.versions.map((version) => version.name)).toEqual(["brief.txt", "brief-v2.txt"]);
+    const first = await akord.stack.getVersion(stack.id, 0);
+    expect(Buffer.from(first.data).toString()).toEqual("first draft");
+    const latest = await akord.stack.getVersion(stack.id);
+    expect(Buffer.from(latest.data).toString()).toEqual("second draft");
+  });
+
+  it("should include memos & notes optionally", async () => {
+    const { vaultId, mapping } = await akord.vault.clone(sourceVaultId, "Public project", {
+      public: true,
+      includeMemos: true,
+      includeNotes: true
+    });
+    expect((await akord.vault.get(vaultId)).public).toEqual(true);
+    expect(Object.keys(mapping)).toEqual(expect.arrayContaining([memoId, noteId]));
+    expect((await akord.note.getVersion(mapping[noteId])).data).toEqual("# Agenda");
+    expect((await akord.memo.get(mapping[memoId])).versions[0].message).toEqual("Welcome to the project");
+  });
+
+  it("should stop on cancellation", async () => {
+    const cancelHook = new AbortController();
+    cancelHook.abort();
+    const { mapping, cancelled } = await akord.vault.clone(sourceVaultId, "Cancelled project", { cancelHook });
+    expect(mapping).toEqual({});
+    expect(cancelled).toEqual(3);
+  });
+
+  it("should read the stack versions chunk by chunk", async () => {
+    const chunks = jest.spyOn(FileService.prototype, "chunks");
+    const getVersion = jest.spyOn(StackService.prototype, "getVersion");
+    const { mapping } = await akord.vault.clone(sourceVaultId, "Streamed project");
+    expect(chunks).toHaveBeenCalledTimes(2);
+    expect(getVersion).not.toHaveBeenCalled();
+    expect((await akord.stack.get(mapping[stackId])).versions.length).toEqual(2);
+  });
+});
+
+describe("Testing in-memory api vault export", () => {
+  let vaultId: string;
+  let stackId: string;
+  let directory: string;
+
+  beforeAll(async () => {
+    ({ akord } = await initMemoryInstance());
+    vaultId = (await akord.vault.create("Backup")).vaultId;
+    const { folderId } = await akord.folder.create(vaultId, "Reports/2023");
+    stackId = (await akord.stack.create(vaultId, ["draft"], "summary.txt", { parentId: folderId, mimeType: "text/plain" })).stackId;
+    await akord.stack.uploadRevision(stackId, ["final"], { name: "summary.txt", mimeType: "text/plain" });
+    await akord.stack.create(vaultId, ["other"], "summary.txt", { parentId: folderId, mimeType: "text/plain" });
+    await akord.memo.create(vaultId, "Backed up");
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "akord-export-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should export the decrypted files within their folder paths", async () => {
+    const target = path.join(directory, "vault");
+    const { files, errors } = await akord.vault.export(vaultId, { format: "directory", path: target, allVersions: true });
+    expect(errors).toEqual([]);
+    expect(files).toEqual(3);
+    expect(fs.readFileSync(path.join(target, "Reports_2023", "summary.txt")).toString()).toEqual("final");
+    expect(fs.readFileSync(path.join(target, "Reports_2023", "summary.v0.txt")).toString()).toEqual("draft");
+    expect(fs.readFileSync(path.join(target, "Reports_2023", "summary (1).txt")).toString()).toEqual("other");
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(target, "vault.json")).toString());
+    expect(metadata.vault.name).toEqual("Backup");
+    expect(metadata.memberships.map((membership: any) => membership.role)).toEqual(["OWNER"]);
+    expect(metadata.memos[0].versions[0].message).toEqual("Backed up");
+    const stack = metadata.stacks.find((stack: any) => stack.id === stackId);
+    expect(stack.versions.map((version: any) => version.path)).toEqual(["Reports_2023/summary.v0.txt", "Reports_2023/summary.txt"]);
+  });
+
+  it("should write the tar & zip archives", async () => {
+    const tarPath = path.join(directory, "vault.tar");
+    await akord.vault.export(vaultId, { format: "tar", path: tarPath });
+    const tar = fs.readFileSync(tarPath);
+    const names = [] as string[];
+    for (let offset = 0; tar[offset]; ) {
+      const size = parseInt(tar.subarray(offset + 124, offset + 136).toString(), 8);
+      names.push(tar.subarray(offset, offset + 100).toString().replace(/\0+$/, ""));
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+    expect(names).toEqual(["Reports_2023/", "Reports_2023/summary.txt", "Reports_2023/summary (1).txt", "vault.json"]);
+
+    const zipPath = path.join(directory, "vault.zip");
+    await akord.vault.export(vaultId, { format: "zip", path: zipPath });
+    const zip = fs.readFileSync(zipPath);
+    expect(zip.readUInt32LE(0)).toEqual(0x04034b50);
+    expect(zip.readUInt16LE(zip.length - 12)).toEqual(4); // entries in the end of central directory record
+  });
+
+  it("should reject the zip archives over the format limits before writing", async () => {
+    const zipPath = path.join(directory, "large.zip");
+    await expect(createArchiveWriter("zip", zipPath, [{ path: "large.bin", size: 0xffffffff }])).rejects.toThrow(BadRequest);
+    const entries = Array.from({ length: 0x10000 }, (_, index) => ({ path: `file${index}.txt`, size: 1 }));
+    await expect(createArchiveWriter("zip", zipPath, entries)).rejects.toThrow(BadRequest);
+    expect(fs.existsSync(zipPath)).toBeFalsy();
+  });
+
+  it("should stop reading the chunked file on cancellation", async () => {
+    const api = akord.api as any;
+    const resourceUrl = await akord.stack.getUri(stackId, StorageType.S3);
+    api.files.set("chunked_0", api.files.get(resourceUrl));
+    api.files.set("chunked_1", api.files.get(resourceUrl));
+    const cancelHook = new AbortController();
+    const chunks = akord.file.chunks("chunked", vaultId, { isChunked: true, numberOfChunks: 2, cancelHook });
+
+    expect((await chunks.next()).done).toBeFalsy();
+    cancelHook.abort();
+    await expect(chunks.next()).rejects.toThrow("The download was cancelled.");
+  });
+
+  it("should place the folder cycles in the root", async () => {
+    const folders = [
+      new Folder({ id: "a", parentId: "b", name: "A" }, []),
+      new Folder({ id: "b", parentId: "a", name: "B" }, []),
+      new Folder({ id: "c", parentId: "c", name: "C" }, [])
+    ];
+    const { folders: paths } = getExportPaths(folders, []);
+    expect(["a", "b", "c"].map((id) => paths.get(id))).toEqual(["B/A", "B", "C"]);
+  });
+
+  it("should report the versions without the size", async () => {
+    const { stackId: unsizedStackId } = await akord.stack.create(vaultId, ["unsized"], "unsized.txt", { mimeType: "text/plain" });
+    const node = (akord.api as any).vaults.get(vaultId).nodes.find((node: any) => node.id === unsizedStackId);
+    delete node.versions[0].size;
+
+    const zipPath = path.join(directory, "unsized.zip");
+    const { files, errors } = await akord.vault.export(vaultId, { format: "zip", path: zipPath });
+    expect(files).toEqual(2);
+    expect(errors.map((error) => error.id)).toEqual([unsizedStackId]);
+    expect(errors[0].error).toBeInstanceOf(BadRequest);
+    const zip = fs.readFileSync(zipPath);
+    expect(zip.readUInt16LE(zip.length - 12)).toEqual(4);
+  });
+});
+
+describe("Testing in-memory api directory upload", () => {
+  let vaultId: string;
+  let directory: string;
+
+  beforeAll(async () => {
+    ({ akord } = await initMemoryInstance());
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "akord-upload-"));
+    fs.mkdirSync(path.join(directory, "docs", "drafts"), { recursive: true });
+    fs.mkdirSync(path.join(directory, "node_modules"));
+    fs.writeFileSync(path.join(directory, "readme.txt"), "readme");
+    fs.writeFileSync(path.join(directory, "docs", "plan.txt"), "plan");
+    fs.writeFileSync(path.join(directory, "docs", "drafts", "plan.txt"), "draft plan");
+    fs.writeFileSync(path.join(directory, "docs", "drafts", "notes.tmp"), "temporary");
+    fs.writeFileSync(path.join(directory, "node_modules", "index.js"), "module");
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should create the folder hierarchy & the stacks within it", async () => {
+    const progress = [] as number[];
+    const { folders, files } = await akord.vault.uploadDirectory(vaultId, directory, {
+      ignore: ["node_modules", "*.tmp"],
+      concurrency: 1,
+      progressHook: (percentage) => progress.push(percentage)
+    });
+    expect(Object.keys(folders)).toEqual(["docs", "docs/drafts"]);
+    expect(files.map((file) => [file.path, file.status])).toEqual([
+      ["docs/drafts/plan.txt", "created"],
+      ["docs/plan.txt", "created"],
+      ["readme.txt", "created"]
+    ]);
+    expect(progress[progress.length - 1]).toEqual(100);
+
+    expect((await akord.folder.get(folders["docs/drafts"])).parentId).toEqual(folders["docs"]);
+    const draft = await akord.stack.get(files[0].stackId);
+    expect(draft.parentId).toEqual(folders["docs/drafts"]);
+    expect(Buffer.from((await akord.stack.getVersion(draft.id)).data).toString()).toEqual("draft plan");
+  });
+
+  it("should skip the files already uploaded with the same content & upload the changed ones as revisions", async () => {
+    fs.writeFileSync(path.join(directory, "docs", "plan.txt"), "updated plan");
+    const { folders, files } = await akord.vault.uploadDirectory(vaultId, directory, {
+      ignore: ["node_modules", "*.tmp"],
+      skipExisting: true
+    });
+    expect(files.map((file) => [file.path, file.status])).toEqual([
+      ["docs/drafts/plan.txt", "skipped"],
+      ["docs/plan.txt", "updated"],
+      ["readme.txt", "skipped"]
+    ]);
+    const plan = await akord.stack.get(files[1].stackId);
+    expect(plan.versions.length).toEqual(2);
+    expect(Buffer.from((await akord.stack.getVersion(plan.id)).data).toString()).toEqual("updated plan");
+    expect((await akord.stack.listAll(vaultId)).length).toEqual(3);
+
+    const folderList = await akord.folder.listAll(vaultId);
+    expect(folderList.length).toEqual(2);
+    expect(folders["docs"]).toEqual(folderList.find((folder) => folder.name === "docs").id);
+  });
+
+  it("should create new folders unless skipping the existing files", async () => {
+    const { folders, files } = await akord.vault.uploadDirectory(vaultId, directory, {
+      ignore: ["node_modules", "*.tmp"]
+    });
+    expect(Object.keys(folders)).toEqual(["docs", "docs/drafts"]);
+    expect(files.every((file) => file.status === "created")).toBeTruthy();
+    expect((await akord.folder.listAll(vaultId)).length).toEqual(4);
+    expect((await akord.folder.get(folders["docs/drafts"])).parentId).toEqual(folders["docs"]);
+  });
+});
+
+describe("Testing directory upload batches", () => {
+  it("should upload the batches in parallel within the file limit", async () => {
+    const batches = [[{ path: "a/1" }, { path: "a/2" }], [{ path: "b/1" }], [{ path: "c/1" }, { path: "c/2" }]] as LocalDirectoryEntry[][];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const uploaded = [] as string[];
+    await runBatches(batches, 3, async (batch) => {
+      inFlight += batch.length;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      uploaded.push(...batch.map((file) => file.path));
+      inFlight -= batch.length;
+    });
+    expect(maxInFlight).toEqual(3);
+    expect(uploaded).toEqual(["a/1", "a/2", "b/1", "c/1", "c/2"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { AkordWallet } from "@akord/crypto";
+import { IntegrityError } from "../../errors/integrity-error";
+import { initMemoryInstance } from "./common";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api state verification", () => {
+  let api: MemoryApi;
+  let wallet: AkordWallet;
+  let vaultId: string;
+  let folderId: string;
+
+  beforeAll(async () => {
+    ({ akord, api, wallet } = await initMemoryInstance({ stateVerification: "report" }));
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+    folderId = (await akord.folder.create(vaultId, faker.random.words())).folderId;
+  });
+
+  it("should verify the vault, node & membership states", async () => {
+    const vault = await akord.vault.get(vaultId);
+    expect(vault.verificationStatus).toEqual("VERIFIED");
+    expect(vault.verifiedBy).toEqual(await wallet.getAddress());
+
+    const folder = await akord.folder.get(folderId);
+    expect(folder.verificationStatus).toEqual("VERIFIED");
+
+    const memberships = await akord.membership.listAll(vaultId);
+    expect(memberships[0].verificationStatus).toEqual("VERIFIED");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should load the member signing keys once per vault", async () => {
+    await akord.folder.create(vaultId, faker.random.words());
+    const getMembers = jest.spyOn(api, "getMembers");
+    const folders = await new Akord(wallet, { api }).folder.listAll(vaultId);
+    expect(folders.every((folder) => folder.verificationStatus === "VERIFIED")).toBeTruthy();
+    expect(getMembers).toHaveBeenCalledTimes(1);
+  });
+
+  it("should detect the states swapped between nodes", async () => {
+    const otherFolderId = (await akord.folder.create(vaultId, faker.random.words())).folderId;
+    const nodes = (api as any).vaults.get(vaultId).nodes;
+    const folder = nodes.find((node: any) => node.id === folderId);
+    const otherFolder = nodes.find((node: any) => node.id === otherFolderId);
+    [folder.data, otherFolder.data] = [otherFolder.data, folder.data];
+
+    expect((await akord.folder.get(folderId)).verificationStatus).toEqual("INVALID");
+    expect((await akord.folder.get(otherFolderId)).verificationStatus).toEqual("INVALID");
+    [folder.data, otherFolder.data] = [otherFolder.data, folder.data];
+    expect((await akord.folder.get(folderId)).verificationStatus).toEqual("VERIFIED");
+  });
+
+  it("should detect the returned fields not matching the verified state", async () => {
+    const nodes = (api as any).vaults.get(vaultId).nodes;
+    const folder = nodes.find((node: any) => node.id === folderId);
+    const name = folder.name;
+    folder.name = nodes.find((node: any) => node.id !== folderId).name;
+
+    const tamperedFolder = await akord.folder.get(folderId);
+    expect(tamperedFolder.verificationStatus).toEqual("INVALID");
+    folder.name = name;
+  });
+
+  it("should detect tampered states", async () => {
+    const folder = await akord.folder.get(folderId);
+    (api as any).states.get(folder.data[folder.data.length - 1]).data.name = "tampered";
+
+    const tamperedFolder = await akord.folder.get(folderId);
+    expect(tamperedFolder.verificationStatus).toEqual("INVALID");
+    expect(tamperedFolder.verifiedBy).toBeUndefined();
+
+    api.stateVerification = "strict";
+    await expect(akord.folder.get(folderId)).rejects.toThrow(IntegrityError);
+    await expect(akord.folder.rename(folderId, faker.random.words())).rejects.toThrow(IntegrityError);
+  });
+});
@@ -0,0 +1,74 @@
+import { Akord, MemoryApi } from "../../index";
+import faker from '@faker-js/faker';
+import { firstValueFrom, take, toArray } from "rxjs";
+import { initMemoryInstance } from "./common";
+
+let akord: Akord;
+
+jest.setTimeout(3000000);
+
+describe("Testing in-memory api watch subscriptions", () => {
+  let api: MemoryApi;
+  let vaultId: string;
+
+  beforeAll(async () => {
+    ({ akord, api } = await initMemoryInstance({ pollingInterval: 10 }));
+    vaultId = (await akord.vault.create(faker.random.words())).vaultId;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should emit decrypted vault change events", async () => {
+    const events = firstValueFrom(akord.vault.watch(vaultId).pipe(take(2), toArray()));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const name = faker.random.words();
+    const { folderId } = await akord.folder.create(vaultId, name);
+    await akord.vault.rename(vaultId, name);
+
+    const [created, updated] = await events;
+    expect(created.type).toEqual("created");
+    expect(created.objectId).toEqual(folderId);
+    expect((<any>created.object).name).toEqual(name);
+    expect(updated.type).toEqual("updated");
+    expect((<any>updated.object).name).toEqual(name);
+  });
+
+  it("should emit node change events", async () => {
+    const { folderId } = await akord.folder.create(vaultId, faker.random.words());
+    const event = firstValueFrom(akord.folder.watch(folderId));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await akord.folder.revoke(folderId);
+    const { type, object } = await event;
+    expect(type).toEqual("revoked");
+    expect(object.status).toEqual("REVOKED");
+  });
+
+  it("should poll only the transactions posted since the previous poll", async () => {
+    const getTransactions = jest.spyOn(api, "getTransactions");
+    const event = firstValueFrom(akord.vault.watch(vaultId));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const { folderId } = await akord.folder.create(vaultId, faker.random.words());
+    expect((await event).objectId).toEqual(folderId);
+
+    const filters = getTransactions.mock.calls.map(([, options]) => options.filter);
+    expect(filters.length).toBeGreaterThan(1);
+    expect(filters.every((filter) => filter.postedAt.gt)).toBeTruthy();
+  });
+
+  it("should emit the transactions posted between the subscription & the first poll", async () => {
+    const getTransactions = api.getTransactions.bind(api);
+    let folderId: string;
+    jest.spyOn(api, "getTransactions").mockImplementationOnce(async (vaultId, options) => {
+      ({ folderId } = await akord.folder.create(vaultId, faker.random.words()));
+      return getTransactions(vaultId, options);
+    });
+    const event = firstValueFrom(akord.vault.watch(vaultId));
+
+    expect((await event).objectId).toEqual(folderId);
+  });
+});
@@ -0,0 +1,58 @@
+import { ApiClient } from "../api/api-client";
+import { Middleware } from "../api/middleware";
+import { Transport, TransportRequest, TransportResponse } from "../api/transport";
+import { BadRequest } from "../errors/bad-request";
+
+// fake api: records the sent requests & responds with the request url
+const echoTransport = (requests: TransportRequest[]): Transport => {
+  const request = async (request: TransportRequest): Promise<TransportResponse> => {
+    requests.push(request);
+    return { status: 200, headers: {}, data: { url: request.url } };
+  }
+  return { request, upload: request, download: request };
+}
+
+const client = (transport: Transport, middleware: Middleware[]) => new ApiClient()
+  .env({ apiurl: "https://api.akord.com", storageurl: "https://storage.akord.com", transport, middleware })
+  .public(true);
+
+describe("Testing api middleware", () => {
+  it("should run the middleware in the registration order", async () => {
+    const calls = [];
+    const requests = [];
+    const tracing = (name: string): Middleware => async (context, next) => {
+      calls.push(`${name}:before`);
+      context.request.headers[`x-${name}`] = "1";
+      const response = await next();
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+    const data = await client(echoTransport(requests), [tracing("first"), tracing("second")]).get("https://api.akord.com/vaults");
+    expect(data.url).toContain("https://api.akord.com/vaults");
+    expect(calls).toEqual(["first:before", "second:before", "second:after", "first:after"]);
+    expect(requests.length).toEqual(1);
+    expect(requests[0].headers["x-first"]).toEqual("1");
+    expect(requests[0].headers["x-second"]).toEqual("1");
+  });
+
+  it("should short-circuit the request", async () => {
+    const requests = [];
+    const calls = [];
+    const cached: Middleware = async () => ({ status: 200, data: { cached: true } } as TransportResponse);
+    const next: Middleware = async (context, next) => {
+      calls.push("next");
+      return next();
+    };
+
+    const data = await client(echoTransport(requests), [cached, next]).get("https://api.akord.com/vaults");
+    expect(data).toEqual({ cached: true });
+    expect(calls).toEqual([]);
+    expect(requests).toEqual([]);
+  });
+
+  it("should reject the invalid short-circuit responses", async () => {
+    const invalid: Middleware = async () => undefined;
+    await expect(client(echoTransport([]), [invalid]).get("https://api.akord.com/vaults")).rejects.toThrow(BadRequest);
+  });
+});
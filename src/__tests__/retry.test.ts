@@ -0,0 +1,108 @@
+import { retry } from "../api/retry";
+import { TransportError } from "../api/transport";
+import { Logger } from "../logger";
+
+const context = { method: "get", url: "https://api.akord.com/vaults", idempotent: true, logger: new Logger({ level: "silent" }) };
+
+const responseError = (status: number, headers = {}) =>
+  new TransportError("Request failed with status code " + status, { status, headers, data: {} });
+
+const networkError = (code: string) => new TransportError("Network error", undefined, code);
+
+// fails with the given errors, then succeeds
+const failingRequest = (errors: Error[]) => jest.fn(async () => {
+  if (errors.length) {
+    throw errors.shift();
+  }
+  return "ok";
+});
+
+describe("Testing request retries", () => {
+  let delays: number[];
+
+  beforeEach(() => {
+    delays = [];
+    // record the backoff delays & resolve them immediately
+    jest.spyOn(global, "setTimeout").mockImplementation(((callback: () => void, delay: number) => {
+      delays.push(delay);
+      callback();
+      return 0;
+    }) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should back off exponentially up to the max delay", async () => {
+    const request = failingRequest([responseError(503), responseError(503), responseError(503)]);
+    const options = { maxRetries: 3, initialDelay: 100, maxDelay: 300, factor: 2, jitter: false };
+    expect(await retry(request, context, options)).toEqual("ok");
+    expect(request).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([100, 200, 300]);
+  });
+
+  it("should give up after the max retries", async () => {
+    const request = failingRequest([responseError(503), responseError(503)]);
+    await expect(retry(request, context, { maxRetries: 1, jitter: false })).rejects.toThrow(TransportError);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep the jittered delay within the half & the full backoff", async () => {
+    const request = failingRequest([responseError(500)]);
+    await retry(request, context, { initialDelay: 1000, jitter: true });
+    expect(delays[0]).toBeGreaterThanOrEqual(500);
+    expect(delays[0]).toBeLessThanOrEqual(1000);
+  });
+
+  it("should honour the Retry-After header of the rate limited requests", async () => {
+    const request = failingRequest([
+      responseError(429, { "retry-after": "2" }),
+      responseError(429, { "retry-after": new Date(Date.now() + 60000).toUTCString() }),
+      responseError(503, { "retry-after": "5" })
+    ]);
+    await retry(request, context, { initialDelay: 100, maxDelay: 120000, jitter: false });
+    expect(delays[0]).toEqual(2000);
+    expect(delays[1]).toBeGreaterThan(50000);
+    expect(delays[1]).toBeLessThanOrEqual(60000);
+    // Retry-After is honoured on rate limits only
+    expect(delays[2]).toEqual(400);
+  });
+
+  it("should cap the Retry-After delay at the max delay", async () => {
+    const request = failingRequest([
+      responseError(429, { "retry-after": "3600" }),
+      responseError(429, { "retry-after": new Date(Date.now() + 60000).toUTCString() })
+    ]);
+    await retry(request, context, { maxDelay: 5000, jitter: false });
+    expect(delays).toEqual([5000, 5000]);
+  });
+
+  it("should not retry the client errors & cancelled requests", async () => {
+    const request = failingRequest([responseError(404)]);
+    await expect(retry(request, context)).rejects.toThrow(TransportError);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    const cancelled = failingRequest([networkError("ERR_CANCELED")]);
+    await expect(retry(cancelled, context)).rejects.toThrow(TransportError);
+    expect(cancelled).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry the non-idempotent requests only if the server did not process them", async () => {
+    const nonIdempotent = { ...context, method: "post", idempotent: false };
+
+    const serverError = failingRequest([responseError(503)]);
+    await expect(retry(serverError, nonIdempotent)).rejects.toThrow(TransportError);
+    expect(serverError).toHaveBeenCalledTimes(1);
+
+    const connectionReset = failingRequest([networkError("ECONNRESET")]);
+    await expect(retry(connectionReset, nonIdempotent)).rejects.toThrow(TransportError);
+    expect(connectionReset).toHaveBeenCalledTimes(1);
+
+    const rateLimited = failingRequest([responseError(429)]);
+    expect(await retry(rateLimited, nonIdempotent)).toEqual("ok");
+
+    const connectionRefused = failingRequest([networkError("ECONNREFUSED")]);
+    expect(await retry(connectionRefused, nonIdempotent)).toEqual("ok");
+  });
+});
@@ -0,0 +1,104 @@
+import { ApiClient } from "../api/api-client";
+import { Scheduler } from "../api/scheduler";
+import { Transport, TransportRequest, TransportResponse } from "../api/transport";
+
+// fake api: holds the requests until released, tracks the concurrency per host
+const blockingTransport = () => {
+  const running = new Map<string, number>();
+  const maxRunning = new Map<string, number>();
+  const pending = [] as Array<() => void>;
+  const request = async (request: TransportRequest): Promise<TransportResponse> => {
+    const host = new URL(request.url).host;
+    running.set(host, (running.get(host) || 0) + 1);
+    maxRunning.set(host, Math.max(maxRunning.get(host) || 0, running.get(host)));
+    await new Promise<void>((resolve) => pending.push(resolve));
+    running.set(host, running.get(host) - 1);
+    return { status: 200, headers: {}, data: {} };
+  }
+  const releaseAll = async () => {
+    while (pending.length) {
+      pending.splice(0).forEach((resolve) => resolve());
+      await flush();
+    }
+  }
+  return { transport: { request, upload: request, download: request } as Transport, maxRunning, pending, releaseAll };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("Testing request scheduler", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should limit the concurrent requests per host", async () => {
+    const { transport, maxRunning, pending, releaseAll } = blockingTransport();
+    const scheduler = new Scheduler({ maxConcurrentRequests: 2 });
+    const get = (url: string) => new ApiClient()
+      .env({ apiurl: "https://api.akord.com", storageurl: "https://storage.akord.com", transport, scheduler })
+      .public(true)
+      .get(url);
+    const requests = [] as Promise<any>[];
+    for (let i = 0; i < 5; i++) {
+      requests.push(get("https://api.akord.com/vaults"));
+      requests.push(get("https://other.akord.com/vaults"));
+    }
+    await flush();
+    // two requests started per host, the rest wait in the queue
+    expect(pending.length).toEqual(4);
+
+    await releaseAll();
+    await Promise.all(requests);
+    expect(maxRunning.get("api.akord.com")).toEqual(2);
+    expect(maxRunning.get("other.akord.com")).toEqual(2);
+  });
+
+  it("should limit the transfers separately from the metadata requests", async () => {
+    const scheduler = new Scheduler({ maxConcurrentRequests: 2, maxConcurrentTransfers: 1 });
+    const started = [] as string[];
+    const pending = [] as Array<() => void>;
+    const request = (name: string) => () => new Promise<void>((resolve) => {
+      started.push(name);
+      pending.push(resolve);
+    });
+
+    const requests = [
+      scheduler.schedule("https://storage.akord.com/files/1", "transfer", request("transfer-1")),
+      scheduler.schedule("https://storage.akord.com/files/2", "transfer", request("transfer-2")),
+      scheduler.schedule("https://storage.akord.com/states/1", "metadata", request("metadata-1")),
+      scheduler.schedule("https://storage.akord.com/states/2", "metadata", request("metadata-2"))
+    ];
+    await flush();
+    expect(started).toEqual(["transfer-1", "metadata-1", "metadata-2"]);
+
+    // the queued transfer starts once the slot is released, in FIFO order
+    pending.shift()();
+    await flush();
+    expect(started).toEqual(["transfer-1", "metadata-1", "metadata-2", "transfer-2"]);
+
+    pending.splice(0).forEach((resolve) => resolve());
+    await Promise.all(requests);
+  });
+
+  it("should space the request starts by the requests per second budget", async () => {
+    let now = 1000000;
+    const delays = [] as number[];
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(global, "setTimeout").mockImplementation(((callback: () => void, delay: number) => {
+      delays.push(delay);
+      callback();
+      return 0;
+    }) as any);
+
+    const scheduler = new Scheduler({ requestsPerSecond: 4 });
+    const request = async () => "ok";
+    await Promise.all([1, 2, 3].map(() => scheduler.schedule("https://api.akord.com/vaults", "metadata", request)));
+    expect(delays).toEqual([250, 500]);
+
+    // the budget is restored after the idle time
+    now += 2000;
+    delays.splice(0);
+    await scheduler.schedule("https://api.akord.com/vaults", "metadata", request);
+    expect(delays).toEqual([]);
+  });
+});
@@ -17,11 +17,25 @@ import { FileService } from "./core/file";
 import { BatchService } from "./core/batch";
 import { ContractService } from "./core/contract";
 import { NFTService } from "./core/nft";
+import { NotificationService } from "./core/notification";
+import { PollingChangeFeed } from "./core/watch";
+import { VaultContextCache } from "./core/vault-context-cache";
+import { Middleware } from "./api/middleware";
+import { Scheduler } from "./api/scheduler";
+import { BadRequest } from "./errors/bad-request";
+import { ArweaveClient } from "./arweave";
+import { ArweaveQuery } from "./arweave-query";
+import { SearchOptions, SearchResult, SearchService, TagSearchOptions, TagSearchResult } from "./core/search";
+import { Paginated } from "./types/paginated";
 
 export class Akord {
   static readonly reactionEmoji = reactionEmoji;
 
   public api: Api;
+  public scheduler: Scheduler;
+  public logger: Logger;
+  public arweave: ArweaveClient;
+  public arweaveQuery: ArweaveQuery;
   public memo: MemoService;
   public folder: FolderService;
   public membership: MembershipService;
@@ -34,6 +48,9 @@ export class Akord {
   public batch: BatchService;
   public contract: ContractService;
   public nft: NFTService;
+  public notification: NotificationService;
+  public searchIndex: SearchService;
+  public search: Search;
 
   public static init: (wallet: Wallet, config?: ClientConfig) => Promise<Akord>;
 
@@ -42,10 +59,30 @@ export class Akord {
    * @param  {Wallet} [wallet]
    */
   constructor(wallet?: Wallet, config: ClientConfig = {}) {
-    Logger.debug = config.debug;
     CacheBusters.cache = config.cache;
     Crypto.configure({ wallet: wallet });
-    this.api = config.api ? config.api : new AkordApi(config);
+    this.scheduler = new Scheduler(config.scheduler);
+    this.api = config.api ? config.api : new AkordApi(config, this.scheduler);
+    this.logger = new Logger({ level: config.logLevel || (config.debug ? "debug" : undefined), sinks: config.logSinks });
+    this.api.logger = this.logger;
+    this.arweave = new ArweaveClient({
+      gateways: config.arweave?.gateways || [config.arweaveurl || this.api.config?.arweaveurl],
+      timeout: config.arweave?.timeout,
+      cooldown: config.arweave?.cooldown,
+      transport: config.transport,
+      logger: this.logger
+    });
+    this.arweaveQuery = new ArweaveQuery(this.arweave);
+    if (this.api.config) {
+      this.api.config.logger = this.logger;
+      this.api.config.arweave = this.arweave;
+    }
+    if (config.stateVerification) {
+      this.api.stateVerification = config.stateVerification;
+    }
+    if (config.cache) {
+      this.api.vaultContextCache = new VaultContextCache(config.cacheTTL, this.api.vaultChanges);
+    }
     this.vault = new VaultService(wallet, this.api);
     this.memo = new MemoService(wallet, this.api);
     this.folder = new FolderService(wallet, this.api);
@@ -58,5 +95,48 @@ export class Akord {
     this.batch = new BatchService(wallet, this.api);
     this.contract = new ContractService(wallet, this.api);
     this.nft = new NFTService(wallet, this.api);
+    this.notification = new NotificationService(wallet, this.api);
+    this.searchIndex = new SearchService(wallet, this.api);
+    this.search = Object.assign(
+      (vaultId: string, query: string, options?: SearchOptions) => this.searchIndex.search(vaultId, query, options),
+      { byTags: (values: string[], options?: TagSearchOptions) => this.searchIndex.byTags(values, options) }
+    );
+    const changeFeed = config.changeFeed || new PollingChangeFeed(this.api, config.pollingInterval);
+    [this.vault, this.memo, this.folder, this.stack, this.note, this.manifest, this.nft]
+      .forEach((service) => service.setChangeFeed(changeFeed));
   }
+
+  /**
+   * Registers request middleware, run after the already registered ones
+   * @param  {Middleware} middleware
+   * @returns Akord instance for chaining
+   */
+  public use(middleware: Middleware): Akord {
+    if (!this.api.config) {
+      throw new BadRequest("Middleware is not supported by the configured api.");
+    }
+    if (!this.api.config.middleware) {
+      this.api.config.middleware = [];
+    }
+    this.api.config.middleware.push(middleware);
+    return this;
+  }
+}
+
+type Search = {
+  /**
+   * Full-text search over the decrypted node names, memo messages & note contents of the vault
+   * @param  {string} vaultId
+   * @param  {string} query
+   * @param  {SearchOptions} [options] node types, limit
+   * @returns Promise with matching nodes ordered by the score
+   */
+  (vaultId: string, query: string, options?: SearchOptions): Promise<Array<SearchResult>>,
+  /**
+   * Searches the nodes by tags across all vaults of the user
+   * @param  {string[]} values
+   * @param  {TagSearchOptions} [options] criteria, node types, vault ids, concurrency
+   * @returns Promise with decrypted matching nodes grouped by vault & errors of the vaults or nodes that could not be searched
+   */
+  byTags(values: string[], options?: TagSearchOptions): Promise<Omit<Paginated<TagSearchResult>, "nextToken">>
 }
@@ -2,17 +2,21 @@ import { ClientConfig } from "../config";
 import { Api } from "./api";
 import { apiConfig, ApiConfig } from "./config";
 import { ApiClient } from "./api-client";
-import { Logger } from "../logger";
+import { Scheduler } from "./scheduler";
 import { Membership, MembershipKeys, RoleType } from "../types/membership";
 import { ContractInput, ContractState, Tags } from "../types/contract";
 import { NodeType } from "../types/node";
 import { Vault } from "../types/vault";
 import { Transaction } from "../types/transaction";
 import { Paginated } from "../types/paginated";
+import { Notification } from "../types/notification";
 import { ListOptions, VaultApiGetOptions } from "../types/query-options";
 import { User, UserPublicInfo } from "../types/user";
 import { FileDownloadOptions, FileUploadOptions } from "../core/file";
 import { EncryptionMetadata } from "../core";
+import { ArweaveClient, getTxMetadata } from "../arweave";
+import { ArweaveQuery } from "../arweave-query";
+import { ContractInteraction, sortInteractionTransactions, toContractInteraction } from "../core/contract-evaluator";
 
 export const defaultFileUploadOptions = {
   cacheOnly: false,
@@ -23,9 +27,22 @@ export default class AkordApi extends Api {
 
   public config!: ApiConfig;
 
-  constructor(config: ClientConfig) {
+  /**
+   * @param  {ClientConfig} config
+   * @param  {Scheduler} [scheduler] shared request scheduler, a dedicated one is created by default
+   */
+  constructor(config: ClientConfig, scheduler: Scheduler = new Scheduler(config.scheduler)) {
     super();
-    this.config = apiConfig(config.env);
+    const envConfig = apiConfig(config.env);
+    this.config = {
+      apiurl: config.apiurl || envConfig.apiurl,
+      storageurl: config.storageurl || envConfig.storageurl,
+      arweaveurl: config.arweaveurl || envConfig.arweaveurl,
+      retry: config.retry,
+      transport: config.transport,
+      middleware: config.middleware ? [...config.middleware] : [],
+      scheduler: scheduler
+    };
   }
 
   public async uploadData(items: { data: any, tags: Tags }[], options: FileUploadOptions = defaultFileUploadOptions)
@@ -38,7 +55,7 @@ export default class AkordApi extends Api {
         .data({ data: item.data, tags: item.tags })
         .cacheOnly(options.cacheOnly)
         .uploadState()
-      Logger.log("Uploaded state with id: " + resource);
+      this.logger.debug("Uploaded state", { stateId: resource });
       resources[index] = resource;
     }));
     return resources;
@@ -52,7 +69,8 @@ export default class AkordApi extends Api {
       .input(input)
       .tags(tags)
       .transaction<T>()
-    Logger.log("Uploaded contract interaction with id: " + id);
+    this.logger.debug("Posted contract transaction", { vaultId: vaultId, transactionId: id, function: input.function });
+    this.notifyVaultChange(vaultId, input);
     return { id, object };
   };
 
@@ -68,7 +86,7 @@ export default class AkordApi extends Api {
       .env(this.config)
       .data({ tags, state })
       .contract()
-    Logger.log("Created contract with id: " + contractId);
+    this.logger.debug("Created contract", { vaultId: contractId });
     return contractId;
   };
 
@@ -86,12 +104,12 @@ export default class AkordApi extends Api {
       .progressHook(uploadOptions.progressHook)
       .cancelHook(uploadOptions.cancelHook)
       .uploadFile()
-    Logger.log("Uploaded file with id: " + resource.id);
+    this.logger.debug("Uploaded file", { resourceUrl: resource.resourceUrl, transactionId: resource.id });
 
     return resource;
   };
 
-  public async downloadFile(id: string, options: FileDownloadOptions = {}): Promise<{ fileData: ArrayBuffer, metadata: EncryptionMetadata }> {
+  public async downloadFile(id: string, options: FileDownloadOptions = {}): Promise<{ fileData: ArrayBuffer, metadata: EncryptionMetadata, tags?: Tags }> {
     const { response } = await new ApiClient()
       .env(this.config)
       .resourceId(id)
@@ -104,7 +122,7 @@ export default class AkordApi extends Api {
 
     const fileData = response.data;
     const metadata = { encryptedKey: response.headers["x-amz-meta-encryptedkey"], iv: response.headers["x-amz-meta-iv"] };
-    return { fileData, metadata };
+    return { fileData, metadata, tags: parseTags(response.headers["x-amz-meta-tags"]) };
   };
 
   public async existsUser(email: string): Promise<Boolean> {
@@ -218,9 +236,33 @@ export default class AkordApi extends Api {
     return response.data
   };
 
-  public async getNotifications(): Promise<Paginated<any>> {
+  public async getNodeStateWithTags(stateId: string): Promise<{ state: any, tags?: Tags }> {
+    const { response } = await new ApiClient()
+      .env(this.config)
+      .resourceId(stateId)
+      .downloadState()
+
+    let tags = parseTags(response.headers["x-amz-meta-tags"]);
+    if (!tags) {
+      try {
+        // the state tags are available on Arweave once the state is posted
+        tags = (await getTxMetadata(stateId, this.config)).tags;
+      } catch (error) {
+        this.logger.debug("Could not fetch state tags", { stateId: stateId, error: error });
+      }
+    }
+    return { state: response.data, tags };
+  };
+
+  public async getNotifications(options: ListOptions & { vaultId?: string } = {}): Promise<Paginated<Notification>> {
     return await new ApiClient()
       .env(this.config)
+      .queryParams({
+        vaultId: options.vaultId,
+        filter: JSON.stringify(options.filter ? options.filter : {}),
+        limit: options.limit,
+        nextToken: options.nextToken
+      })
       .getNotifications()
   };
 
@@ -293,12 +335,38 @@ export default class AkordApi extends Api {
       .getMembershipsByVaultId();
   };
 
-  public async getTransactions(vaultId: string): Promise<Array<Transaction>> {
+  public async getTransactions(vaultId: string, options: ListOptions = {}): Promise<Paginated<Transaction>> {
     return await new ApiClient()
       .env(this.config)
       .vaultId(vaultId)
+      .queryParams({
+        filter: JSON.stringify(options.filter ? options.filter : {}),
+        limit: options.limit,
+        nextToken: options.nextToken
+      })
       .getTransactions();
   }
+
+  // the api does not expose the interaction inputs, these are read from the Arweave interaction tags
+  public async getContractInteractions(vaultId: string): Promise<Array<ContractInteraction>> {
+    const arweave = this.config.arweave || new ArweaveClient({
+      gateways: [this.config.arweaveurl],
+      transport: this.config.transport
+    });
+    const transactions = await new ArweaveQuery(arweave).listAllVaultInteractions(vaultId, { order: "asc" });
+    return sortInteractionTransactions(transactions).map(toContractInteraction);
+  }
+}
+
+const parseTags = (header: string): Tags => {
+  if (!header) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(header);
+  } catch (error) {
+    return undefined;
+  }
 }
 
 export {
@@ -1,16 +1,27 @@
-import axios, { AxiosRequestConfig } from "axios";
 import { v4 as uuid } from "uuid";
 import { Contract, ContractInput, Tags } from "../types/contract";
 import { Membership, MembershipKeys } from "../types/membership";
 import { Transaction } from "../types/transaction";
 import { nextToken, isPaginated, Paginated } from "../types/paginated";
 import { Vault } from "../types/vault";
+import { Notification } from "../types/notification";
 import { Auth } from "@akord/akord-auth";
 import { Unauthorized } from "../errors/unauthorized";
+import { AkordError } from "../errors/error";
 import { throwError } from "../errors/error-factory";
+import { ErrorContext } from "../errors/error";
 import { BadRequest } from "../errors/bad-request";
 import { NotFound } from "../errors/not-found";
 import { User, UserPublicInfo } from "../types/user";
+import { ApiConfig } from "./config";
+import { retry, RetryOptions } from "./retry";
+import { ProgressEvent, Transport, TransportRequest } from "./transport";
+import { AxiosTransport } from "./axios-transport";
+import { Middleware, runMiddleware } from "./middleware";
+import { Scheduler, SchedulerQueue } from "./scheduler";
+import { Logger } from "../logger";
+
+const defaultTransport = new AxiosTransport();
 
 export class ApiClient {
   private _storageurl: string;
@@ -36,12 +47,29 @@ export class ApiClient {
   private _vaultId: string;
   private _cacheOnly: boolean;
   private _numberOfChunks: number;
+  private _retry: RetryOptions;
+  private _idempotent: boolean;
+  private _transport: Transport = defaultTransport;
+  private _middleware: Middleware[] = [];
+  private _scheduler: Scheduler;
+  private _logger: Logger = Logger.default;
 
   constructor() { }
 
-  env(config: { apiurl: string, storageurl: string }): ApiClient {
+  env(config: ApiConfig): ApiClient {
     this._apiurl = config.apiurl;
     this._storageurl = config.storageurl;
+    this._retry = config.retry;
+    if (config.transport) {
+      this._transport = config.transport;
+    }
+    if (config.middleware) {
+      this._middleware = config.middleware;
+    }
+    this._scheduler = config.scheduler;
+    if (config.logger) {
+      this._logger = config.logger;
+    }
     return this;
   }
 
@@ -125,6 +153,15 @@ export class ApiClient {
     return this;
   }
 
+  /**
+   * Marks the request as safe to be repeated on transient failures
+   * By default only GET, PUT & DELETE requests are considered idempotent
+   */
+  idempotent(idempotent: boolean): ApiClient {
+    this._idempotent = idempotent;
+    return this;
+  }
+
   /**
    * 
    * @requires: 
@@ -173,7 +210,7 @@ export class ApiClient {
     return await this.get(`${this._apiurl}/vaults/${this._vaultId}/members`);
   }
 
-  async getNotifications(): Promise<Paginated<any>> {
+  async getNotifications(): Promise<Paginated<Notification>> {
     return await this.get(`${this._apiurl}/notifications`);
   }
 
@@ -209,8 +246,10 @@ export class ApiClient {
     return await this.public(true).get(`${this._apiurl}/vaults/${this._resourceId}`);
   }
 
-  async getTransactions(): Promise<Array<Transaction>> {
-    return await this.get(`${this._apiurl}/vaults/${this._vaultId}/transactions`);
+  async getTransactions(): Promise<Paginated<Transaction>> {
+    const response = await this.get(`${this._apiurl}/vaults/${this._vaultId}/transactions`);
+    // the whole history is returned if the pagination header is not set
+    return Array.isArray(response) ? { items: response, nextToken: "" } : response;
   }
 
   async patchNotifications(): Promise<Paginated<any>> {
@@ -261,21 +300,65 @@ export class ApiClient {
         'Authorization': auth,
         'Content-Type': 'application/json'
       }
-    } as AxiosRequestConfig;
+    } as TransportRequest;
     if (this._data) {
       config.data = this._data;
     }
     if (this._tags) {
       config.headers['x-amz-meta-tags'] = JSON.stringify(this._tags);
     }
+    const startedAt = Date.now();
     try {
-      const response = await axios(config);
+      const response = await runMiddleware(this._middleware, { operation: "fetch", request: config }, () =>
+        retry(() => this.schedule(config.url, "metadata", () => this._transport.request(config)), {
+          method: config.method,
+          url: config.url,
+          idempotent: this._idempotent ?? ["get", "put", "delete"].includes(config.method),
+          logger: this._logger
+        }, this._retry)
+      );
+      this.logRequest(config, startedAt, response.status);
       if (isPaginated(response)) {
         return { items: response.data, nextToken: nextToken(response) }
       }
       return response.data;
     } catch (error) {
-      throwError(error.response?.status, error.response?.data?.msg, error);
+      this.logRequest(config, startedAt, error.response?.status, error);
+      if (error instanceof AkordError) {
+        // rejected by the middleware
+        throw error;
+      }
+      throwError(error.response?.status, error.response?.data?.msg, error, this.errorContext(config));
+    }
+  }
+
+  private schedule<T>(url: string, queue: SchedulerQueue, request: () => Promise<T>): Promise<T> {
+    return this._scheduler ? this._scheduler.schedule(url, queue, request) : request();
+  }
+
+  private logRequest(config: TransportRequest, startedAt: number, status?: number, error?: Error) {
+    const fields = {
+      method: config.method.toUpperCase(),
+      url: config.url,
+      status: status,
+      duration: Date.now() - startedAt,
+      vaultId: this._vaultId,
+      objectId: this._resourceId,
+      error: error
+    };
+    if (error) {
+      this._logger.debug("API request failed", fields);
+    } else {
+      this._logger.trace("API request", fields);
+    }
+  }
+
+  private errorContext(config: TransportRequest): ErrorContext {
+    return {
+      method: config.method,
+      url: config.url,
+      vaultId: this._vaultId,
+      objectId: this._resourceId
     }
   }
 
@@ -338,6 +421,8 @@ export class ApiClient {
    * - data()
    */
   async uploadState() {
+    // repeated state upload results only in a redundant state copy
+    this.idempotent(true);
     const response = await this.post(`${this._apiurl}/states`);
     return response.id;
   }
@@ -415,7 +500,6 @@ export class ApiClient {
       this._resourceId = this._isPublic ? this._publicDataDir + '/' + uuid() : uuid();
     }
 
-    const me = this
     const config = {
       method: 'put',
       url: `${this._storageurl}/${this._dir}/${this._resourceId}`,
@@ -424,19 +508,19 @@ export class ApiClient {
         'Authorization': auth,
         'Content-Type': 'application/octet-stream'
       },
-      signal: this._cancelHook ? this._cancelHook.signal : null,
-      onUploadProgress(progressEvent) {
-        if (me._progressHook) {
-          let progress;
-          if (me._total) {
-            progress = Math.round((me._processed + progressEvent.loaded) / me._total * 100);
-          } else {
-            progress = Math.round(progressEvent.loaded / progressEvent.total * 100);
-          }
-          me._progressHook(progress, { id: me._resourceId, total: progressEvent.total });
+      signal: this._cancelHook ? this._cancelHook.signal : null
+    } as TransportRequest
+    const onUploadProgress = (progressEvent: ProgressEvent) => {
+      if (this._progressHook) {
+        let progress;
+        if (this._total) {
+          progress = Math.round((this._processed + progressEvent.loaded) / this._total * 100);
+        } else {
+          progress = Math.round(progressEvent.loaded / progressEvent.total * 100);
         }
+        this._progressHook(progress, { id: this._resourceId, total: progressEvent.total });
       }
-    } as AxiosRequestConfig
+    }
 
     if (this._cacheOnly) {
       config.headers['x-amz-meta-skipbundle'] = "true";
@@ -454,11 +538,20 @@ export class ApiClient {
       config.headers['x-amz-meta-tags'] = JSON.stringify(this._tags);
     }
 
+    const startedAt = Date.now();
     try {
-      const response = await axios(config);
-      return { resourceUrl: this._resourceId, resourceTx: response.data.resourceTx };
+      const response = await runMiddleware(this._middleware, { operation: "upload", request: config }, () =>
+        retry(() => this.schedule(config.url, "transfer", () => this._transport.upload(config, onUploadProgress)), { method: config.method, url: config.url, idempotent: true, logger: this._logger }, this._retry)
+      );
+      this.logRequest(config, startedAt, response.status);
+      return { resourceUrl: this._resourceId, resourceTx: response.data?.resourceTx };
     } catch (error) {
-      throwError(error.response?.status, error.response?.data?.msg, error);
+      this.logRequest(config, startedAt, error.response?.status, error);
+      if (error instanceof AkordError) {
+        // rejected by the middleware
+        throw error;
+      }
+      throwError(error.response?.status, error.response?.data?.msg, error, this.errorContext(config));
     }
   }
 
@@ -471,25 +564,24 @@ export class ApiClient {
       throw new BadRequest('Missing resource id to download')
     }
 
-    const me = this;
     const config = {
       method: 'get',
       url: `${this._storageurl}/${this._dir}/${this._resourceId}`,
       responseType: this._responseType,
-      signal: this._cancelHook ? this._cancelHook.signal : null,
-      onDownloadProgress(progressEvent) {
-        if (me._progressHook) {
-          let progress;
-          if (me._total) {
-            const chunkSize = me._total / me._numberOfChunks;
-            progress = Math.round(me._processed / me._total * 100 + progressEvent.loaded / progressEvent.total * chunkSize / me._total * 100);
-          } else {
-            progress = Math.round(progressEvent.loaded / progressEvent.total * 100);
-          }
-          me._progressHook(progress, { id: me._resourceId, total: progressEvent.total });
+      signal: this._cancelHook ? this._cancelHook.signal : null
+    } as TransportRequest
+    const onDownloadProgress = (progressEvent: ProgressEvent) => {
+      if (this._progressHook) {
+        let progress;
+        if (this._total) {
+          const chunkSize = this._total / this._numberOfChunks;
+          progress = Math.round(this._processed / this._total * 100 + progressEvent.loaded / progressEvent.total * chunkSize / this._total * 100);
+        } else {
+          progress = Math.round(progressEvent.loaded / progressEvent.total * 100);
         }
-      },
-    } as AxiosRequestConfig
+        this._progressHook(progress, { id: this._resourceId, total: progressEvent.total });
+      }
+    }
 
     if (!this._isPublic) {
       config.headers = {
@@ -497,11 +589,20 @@ export class ApiClient {
       }
     }
 
+    const startedAt = Date.now();
     try {
-      const response = await axios(config);
+      const response = await runMiddleware(this._middleware, { operation: "download", request: config }, () =>
+        retry(() => this.schedule(config.url, "transfer", () => this._transport.download(config, onDownloadProgress)), { method: config.method, url: config.url, idempotent: true, logger: this._logger }, this._retry)
+      );
+      this.logRequest(config, startedAt, response.status);
       return { resourceUrl: this._resourceId, response: response };
     } catch (error) {
-      throwError(error.response?.status, error.response?.data?.msg, error);
+      this.logRequest(config, startedAt, error.response?.status, error);
+      if (error instanceof AkordError) {
+        // rejected by the middleware
+        throw error;
+      }
+      throwError(error.response?.status, error.response?.data?.msg, error, this.errorContext(config));
     }
   }
 }
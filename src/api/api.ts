@@ -3,16 +3,32 @@ import { Vault } from "../types/vault";
 import { Membership, MembershipKeys } from "../types/membership";
 import { Transaction } from "../types/transaction";
 import { Paginated } from "../types/paginated";
+import { Notification } from "../types/notification";
 import { ListOptions, VaultApiGetOptions } from "../types/query-options";
 import { User, UserPublicInfo } from "../types/user";
 import { FileDownloadOptions, FileUploadOptions } from "../core/file";
 import { EncryptionMetadata } from "../core";
+import { VaultContextCache } from "../core/vault-context-cache";
+import { Logger } from "../logger";
+import { StateVerificationMode } from "../types/object";
+import { ContractInteraction } from "../core/contract-evaluator";
+import { Subject } from "rxjs";
 
 abstract class Api {
   config: any
+  vaultContextCache?: VaultContextCache // set by the client if the cache is enabled
+  logger: Logger = Logger.default
+  stateVerification?: StateVerificationMode // set by the client, default to off
+  vaultChanges = new Subject<string>() // ids of the vaults changed by this client: vault & membership transactions
 
   constructor() { }
 
+  protected notifyVaultChange(vaultId: string, input: ContractInput) {
+    if (input.function.startsWith("vault:") || input.function.startsWith("membership:")) {
+      this.vaultChanges.next(vaultId);
+    }
+  }
+
   abstract postContractTransaction<T>(vaultId: string, input: ContractInput, tags: Tags, metadata?: any): Promise<{ id: string, object: T }>
 
   abstract initContractId(tags: Tags, state?: any): Promise<string>
@@ -23,7 +39,7 @@ abstract class Api {
 
   abstract getContractState(vaultId: string): Promise<ContractState>
 
-  abstract downloadFile(id: string, options?: FileDownloadOptions): Promise<{ fileData: ArrayBuffer, metadata: EncryptionMetadata }>
+  abstract downloadFile(id: string, options?: FileDownloadOptions): Promise<{ fileData: ArrayBuffer, metadata: EncryptionMetadata, tags?: Tags }>
 
   abstract getMembershipKeys(vaultId: string): Promise<MembershipKeys>
 
@@ -41,6 +57,8 @@ abstract class Api {
 
   abstract getNodeState(stateId: string): Promise<any>
 
+  abstract getNodeStateWithTags(stateId: string): Promise<{ state: any, tags?: Tags }>
+
   abstract getVaults(options?: ListOptions): Promise<Paginated<Vault>>
 
   abstract getMemberships(options?: ListOptions): Promise<Paginated<Membership>>
@@ -51,7 +69,9 @@ abstract class Api {
 
   abstract getMembers(vaultId: string): Promise<Array<Membership>>
 
-  abstract getTransactions(vaultId: string): Promise<Array<Transaction>>
+  abstract getTransactions(vaultId: string, options?: ListOptions): Promise<Paginated<Transaction>>
+
+  abstract getContractInteractions(vaultId: string): Promise<Array<ContractInteraction>>
 
   abstract updateUser(name: string, avatarUri: string[]): Promise<void>
 
@@ -62,6 +82,10 @@ abstract class Api {
   abstract revokeInvite(vaultId: string, membershipId: string): Promise<{ id: string }>
 
   abstract inviteResend(vaultId: string, membershipId: string): Promise<{ id: string }>
+
+  abstract getNotifications(options?: ListOptions & { vaultId?: string }): Promise<Paginated<Notification>>
+
+  abstract readNotifications(options: { id?: string, vaultId?: string, readOnly?: Boolean, shouldDelete?: Boolean }): Promise<void>
 }
 
 export {
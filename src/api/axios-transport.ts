@@ -0,0 +1,42 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { ProgressEvent, Transport, TransportRequest, TransportResponse } from "./transport";
+
+export class AxiosTransport implements Transport {
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    return this.send<T>(request);
+  }
+
+  async upload<T>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>> {
+    return this.send<T>(request, {
+      onUploadProgress(progressEvent) {
+        if (onProgress) {
+          onProgress({ loaded: progressEvent.loaded, total: progressEvent.total });
+        }
+      }
+    });
+  }
+
+  async download<T>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>> {
+    return this.send<T>(request, {
+      onDownloadProgress(progressEvent) {
+        if (onProgress) {
+          onProgress({ loaded: progressEvent.loaded, total: progressEvent.total });
+        }
+      }
+    });
+  }
+
+  private async send<T>(request: TransportRequest, config: AxiosRequestConfig = {}): Promise<TransportResponse<T>> {
+    const response: AxiosResponse<T> = await axios({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: request.data,
+      responseType: request.responseType,
+      signal: request.signal,
+      ...config
+    } as AxiosRequestConfig);
+    return { status: response.status, headers: response.headers as any, data: response.data };
+  }
+}
@@ -1,3 +1,10 @@
+import { RetryOptions } from "./retry";
+import { Transport } from "./transport";
+import { Middleware } from "./middleware";
+import { Scheduler } from "./scheduler";
+import { Logger } from "../logger";
+import { ArweaveClient } from "../arweave";
+
 export const apiConfig = (env: string) => {
   switch (env) {
     case "v2":
@@ -5,11 +12,13 @@ export const apiConfig = (env: string) => {
       return {
         apiurl: "https://api.akord.com",
         storageurl: "https://api.v2.prod.permapost-storage.akord.com",
+        arweaveurl: "https://arweave.net",
       };
     case "dev":
       return {
         apiurl: "https://api.akord.link",
         storageurl: "https://api.dev.permapost-storage.akord.link",
+        arweaveurl: "https://arweave.net",
       };
   }
 };
@@ -17,4 +26,11 @@ export const apiConfig = (env: string) => {
 export interface ApiConfig {
   apiurl: string,
   storageurl: string,
+  arweaveurl?: string,
+  arweave?: ArweaveClient,
+  retry?: RetryOptions,
+  transport?: Transport,
+  middleware?: Middleware[],
+  scheduler?: Scheduler,
+  logger?: Logger
 }
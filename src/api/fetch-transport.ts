@@ -0,0 +1,144 @@
+import { BadRequest } from "../errors/bad-request";
+import { ProgressEvent, Transport, TransportError, TransportRequest, TransportResponse } from "./transport";
+
+/**
+ * Transport based on WHATWG fetch, ex: for edge runtimes
+ * Fetch does not expose upload progress, the upload progress is reported once the request body is sent
+ */
+export class FetchTransport implements Transport {
+  private fetch: typeof fetch;
+
+  /**
+   * @param  {typeof fetch} [fetchImplementation] default to global fetch
+   */
+  constructor(fetchImplementation?: typeof fetch) {
+    if (!fetchImplementation && typeof globalThis.fetch !== "function") {
+      throw new BadRequest("Fetch is not available in this environment, please provide the fetch implementation.");
+    }
+    this.fetch = fetchImplementation || globalThis.fetch.bind(globalThis);
+  }
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const response = await this.send(request);
+    return this.toTransportResponse<T>(response, request, await response.arrayBuffer());
+  }
+
+  async upload<T>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>> {
+    const response = await this.send(request);
+    if (onProgress) {
+      const size = getSize(request.data);
+      onProgress({ loaded: size, total: size });
+    }
+    return this.toTransportResponse<T>(response, request, await response.arrayBuffer());
+  }
+
+  async download<T>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>> {
+    const response = await this.send(request);
+    if (request.responseType === "stream" && response.ok && response.body) {
+      return this.toTransportResponse<T>(response, request, response.body);
+    }
+    if (!onProgress || !response.body) {
+      return this.toTransportResponse<T>(response, request, await response.arrayBuffer());
+    }
+    const total = parseInt(response.headers.get("content-length")) || undefined;
+    const reader = response.body.getReader();
+    const chunks = [] as Uint8Array[];
+    let loaded = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress({ loaded, total: total || loaded });
+    }
+    const body = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return this.toTransportResponse<T>(response, request, body.buffer);
+  }
+
+  private async send(request: TransportRequest): Promise<Response> {
+    const headers = {} as { [name: string]: string };
+    for (const [name, value] of Object.entries(request.headers || {})) {
+      if (value !== undefined && value !== null) {
+        headers[name] = value;
+      }
+    }
+    try {
+      return await this.fetch(request.url, {
+        method: request.method.toUpperCase(),
+        headers,
+        body: toBody(request.data),
+        signal: request.signal
+      });
+    } catch (error) {
+      throw toTransportError(error);
+    }
+  }
+
+  private toTransportResponse<T>(response: Response, request: TransportRequest, body: ArrayBuffer | ReadableStream<Uint8Array>): TransportResponse<T> {
+    const headers = {} as { [name: string]: string };
+    response.headers.forEach((value, name) => headers[name.toLowerCase()] = value);
+    const data = (request.responseType === "arraybuffer" || request.responseType === "stream") && response.ok
+      ? body
+      : parseJson(body as ArrayBuffer);
+    const transportResponse = { status: response.status, headers, data };
+    if (!response.ok) {
+      throw new TransportError("Request failed with status code " + response.status, transportResponse);
+    }
+    return transportResponse;
+  }
+}
+
+// fetch rejects with TypeError on network failures & with AbortError (TimeoutError for timeout signals) on abort
+const toTransportError = (error: any): TransportError => {
+  if (error instanceof TransportError) {
+    return error;
+  }
+  if (error?.name === "AbortError") {
+    return new TransportError(error.message || "Request canceled", undefined, "ERR_CANCELED");
+  }
+  if (error?.name === "TimeoutError") {
+    return new TransportError(error.message || "Request timed out", undefined, "ETIMEDOUT");
+  }
+  // Node.js (undici) exposes the system error code as the cause, ex: ECONNREFUSED
+  return new TransportError(error?.message || "Network error", undefined, error?.cause?.code || "ERR_NETWORK");
+}
+
+const toBody = (data: any): BodyInit => {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (typeof data === "string" || data instanceof ArrayBuffer || ArrayBuffer.isView(data)
+    || (typeof Blob !== "undefined" && data instanceof Blob)) {
+    return data;
+  }
+  return JSON.stringify(data);
+}
+
+const getSize = (data: any): number => {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (typeof Blob !== "undefined" && data instanceof Blob) {
+    return data.size;
+  }
+  return 0;
+}
+
+const parseJson = (body: ArrayBuffer): any => {
+  const text = new TextDecoder().decode(body);
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
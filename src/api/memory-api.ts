@@ -0,0 +1,523 @@
+import { Api } from "./api";
+import { Crypto, EncryptedKeys, Wallet } from "@akord/crypto";
+import { v4 as uuidv4 } from "uuid";
+import lodash from "lodash";
+import { AKORD_TAG, encryptionTags, functions, objectType, protocolTags, status } from "../constants";
+import { Membership, MembershipKeys } from "../types/membership";
+import { ContractInput, ContractState, Tags } from "../types/contract";
+import { NodeType } from "../types/node";
+import { Vault } from "../types/vault";
+import { Transaction } from "../types/transaction";
+import { Paginated } from "../types/paginated";
+import { Notification } from "../types/notification";
+import { ListOptions, VaultApiGetOptions } from "../types/query-options";
+import { User, UserPublicInfo } from "../types/user";
+import { FileDownloadOptions, FileUploadOptions } from "../core/file";
+import { EncryptionMetadata } from "../core";
+import { BadRequest } from "../errors/bad-request";
+import { Forbidden } from "../errors/forbidden";
+import { NotFound } from "../errors/not-found";
+import { ContractEvaluator, ContractInteraction, VaultContract, toContractState } from "../core/contract-evaluator";
+import { defaultFileUploadOptions } from "./akord-api";
+
+const DEFAULT_LIMIT = 100;
+
+type StoredData = {
+  data: any,
+  tags: Tags
+}
+
+type VaultRecord = VaultContract & {
+  transactions: Array<Transaction>,
+  interactions: Array<ContractInteraction>
+}
+
+/**
+ * In-memory implementation of the Akord API
+ * Keeps vault states, files & contract interactions in memory,
+ * useful for offline tests & local development: new Akord(wallet, { api: new MemoryApi() })
+ */
+export default class MemoryApi extends Api {
+
+  public config: any;
+
+  private vaults = new Map<string, VaultRecord>();
+  private states = new Map<string, StoredData>();
+  private files = new Map<string, StoredData>();
+  private users = new Map<string, User>();
+  private akordTags = new Map<string, string[]>();
+  private notifications = [] as Array<Notification & { address: string }>;
+  private evaluator = new ContractEvaluator(async (stateId: string) => this.getState(stateId));
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Register user, so that it can be invited to the vault by email
+   * @param  {Wallet} wallet
+   * @param  {string} email
+   * @returns Promise with the registered user
+   */
+  public async addUser(wallet: Wallet, email: string): Promise<User> {
+    const user = {
+      address: await wallet.getAddress(),
+      publicKey: wallet.publicKey(),
+      publicSigningKey: wallet.signingPublicKey(),
+      email: email
+    } as User;
+    this.users.set(user.address, user);
+    return user;
+  }
+
+  public async uploadData(items: { data: any, tags: Tags }[], options: FileUploadOptions = defaultFileUploadOptions)
+    : Promise<Array<string>> {
+    return items.map((item) => {
+      const id = uuidv4();
+      this.states.set(id, { data: lodash.cloneDeep(item.data), tags: item.tags });
+      this.logger.debug("Uploaded state", { stateId: id });
+      return id;
+    });
+  };
+
+  public async postContractTransaction<T>(vaultId: string, input: ContractInput, tags: Tags, metadata?: any): Promise<{ id: string, object: T }> {
+    const caller = getTagValue(tags, protocolTags.SIGNER_ADDRESS);
+    const id = uuidv4();
+    const interaction = { id, input: lodash.cloneDeep(input), tags, caller, timestamp: JSON.stringify(Date.now()) };
+    let object: any;
+    if (input.function === functions.VAULT_CREATE) {
+      if (this.vaults.has(vaultId)) {
+        throw new BadRequest("Vault with given id already exists: " + vaultId);
+      }
+      const contract = await this.evaluator.init(interaction, vaultId);
+      contract.state.cacheOnly = !!metadata?.cacheOnly;
+      this.vaults.set(vaultId, { ...contract, transactions: [], interactions: [] });
+      object = contract.state;
+    } else {
+      object = await this.evaluator.apply(this.getVaultRecord(vaultId), interaction);
+    }
+    const vault = this.vaults.get(vaultId);
+    vault.interactions.push(interaction);
+    vault.memberships
+      .filter((membership) => !membership.email && membership.address)
+      .forEach((membership) => membership.email = this.users.get(membership.address)?.email);
+    const transaction = {
+      id: id,
+      function: input.function,
+      postedAt: interaction.timestamp,
+      address: caller,
+      publicSigningKey: this.users.get(caller)?.publicSigningKey,
+      vaultId: vaultId,
+      actionRef: getTagValue(tags, protocolTags.ACTION_REF) as any,
+      groupRef: getTagValue(tags, protocolTags.GROUP_REF),
+      objectId: object?.id,
+      objectType: getTagValue(tags, protocolTags.NODE_TYPE) as any,
+      status: "COMMITTED"
+    } as Transaction;
+    vault.transactions.push(transaction);
+    this.notify(vault, transaction, object);
+    if (object) {
+      const values = tags.filter((tag) => tag.name === AKORD_TAG).map((tag) => tag.value);
+      this.akordTags.set(object.id, lodash.union(this.akordTags.get(object.id) || [], values));
+    }
+    this.logger.debug("Posted contract transaction", { vaultId: vaultId, transactionId: id, function: input.function });
+    this.notifyVaultChange(vaultId, input);
+    return { id, object: object && await this.withContext(vaultId, object) };
+  };
+
+  public async initContractId(tags: Tags, state?: any): Promise<string> {
+    const contractId = uuidv4();
+    this.logger.debug("Created contract", { vaultId: contractId });
+    return contractId;
+  };
+
+  public async uploadFile(file: ArrayBuffer, tags: Tags, options: FileUploadOptions = defaultFileUploadOptions): Promise<{ resourceUrl: string, resourceTx: string }> {
+    const uploadOptions = {
+      ...defaultFileUploadOptions,
+      ...options
+    }
+    const resourceUrl = uploadOptions.public ? "public/" + uuidv4() : uuidv4();
+    const resourceTx = uploadOptions.cacheOnly ? null : uuidv4();
+    this.files.set(resourceUrl, { data: file.slice(0), tags });
+    if (uploadOptions.progressHook) {
+      uploadOptions.progressHook(100, { id: resourceUrl, total: file.byteLength });
+    }
+    this.logger.debug("Uploaded file", { resourceUrl: resourceUrl, transactionId: resourceTx });
+    return { resourceUrl, resourceTx };
+  };
+
+  public async downloadFile(id: string, options: FileDownloadOptions = {}): Promise<{ fileData: ArrayBuffer, metadata: EncryptionMetadata, tags?: Tags }> {
+    const file = this.files.get(id);
+    if (!file) {
+      throw new NotFound("Could not find file with id: " + id);
+    }
+    const fileData = (file.data as ArrayBuffer).slice(0);
+    const metadata = {
+      encryptedKey: getTagValue(file.tags, encryptionTags.ENCRYPTED_KEY),
+      iv: getTagValue(file.tags, encryptionTags.IV)
+    };
+    return { fileData, metadata, tags: lodash.cloneDeep(file.tags) };
+  };
+
+  public async existsUser(email: string): Promise<Boolean> {
+    return !!this.findUserByEmail(email);
+  }
+
+  public async getUserPublicData(email: string): Promise<UserPublicInfo> {
+    const user = this.findUserByEmail(email);
+    if (!user) {
+      throw new NotFound("Could not find user with email: " + email);
+    }
+    return { address: user.address, publicKey: user.publicKey, publicSigningKey: user.publicSigningKey };
+  };
+
+  public async getUser(): Promise<User> {
+    return lodash.cloneDeep(await this.getCaller());
+  };
+
+  public async updateUser(name: string, avatarUri: string[]): Promise<void> {
+    const user = await this.getCaller();
+    user.name = name;
+    user.avatarUri = avatarUri;
+  };
+
+  public async deleteVault(vaultId: string): Promise<void> {
+    this.getVaultRecord(vaultId);
+    this.vaults.delete(vaultId);
+  }
+
+  public async inviteNewUser(vaultId: string, email: string, role: string, message?: string): Promise<{ id: string }> {
+    const vault = this.getVaultRecord(vaultId);
+    const membership = {
+      id: uuidv4(),
+      owner: (await this.getCaller()).address,
+      email: email,
+      role: role,
+      status: status.INVITED,
+      vaultId: vaultId,
+      createdAt: JSON.stringify(Date.now()),
+      updatedAt: JSON.stringify(Date.now()),
+      data: []
+    };
+    vault.memberships.push(membership);
+    return { id: membership.id };
+  }
+
+  public async revokeInvite(vaultId: string, membershipId: string): Promise<{ id: string }> {
+    const membership = this.findMembership(this.getVaultRecord(vaultId), membershipId);
+    if (membership.status !== status.INVITED) {
+      throw new BadRequest("Cannot revoke the invitation for member: " + membershipId);
+    }
+    membership.status = status.REVOKED;
+    return { id: membershipId };
+  }
+
+  public async inviteResend(vaultId: string, membershipId: string): Promise<{ id: string }> {
+    this.findMembership(this.getVaultRecord(vaultId), membershipId);
+    return { id: membershipId };
+  }
+
+  public async getNotifications(options: ListOptions & { vaultId?: string } = {}): Promise<Paginated<Notification>> {
+    const caller = await this.getCaller();
+    const notifications = this.notifications
+      .filter((notification) => notification.address === caller.address && notification.status !== "DELETED")
+      .filter((notification) => !options.vaultId || notification.vaultId === options.vaultId)
+      .filter((notification) => matchesFilter(notification, options.filter))
+      .map((notification) => lodash.omit(lodash.cloneDeep(notification), "address"))
+      .reverse();
+    return paginate(notifications, options);
+  };
+
+  public async readNotifications(options: { id?: string, vaultId?: string, readOnly?: Boolean, shouldDelete?: Boolean }): Promise<void> {
+    const caller = await this.getCaller();
+    this.notifications
+      .filter((notification) => notification.address === caller.address)
+      .filter((notification) => !options.id || notification.id === options.id)
+      .filter((notification) => !options.vaultId || notification.vaultId === options.vaultId)
+      .forEach((notification) => {
+        notification.status = options.shouldDelete ? "DELETED" : "READ";
+        notification.updatedAt = JSON.stringify(Date.now());
+      });
+  };
+
+  public async getNode<T>(id: string, type: NodeType, vaultId?: string): Promise<T> {
+    for (const [recordId, vault] of this.vaults) {
+      if (vaultId && vaultId !== recordId) {
+        continue;
+      }
+      const node = vault.nodes.find((node) => node.id === id);
+      if (node) {
+        return await this.withContext(recordId, node);
+      }
+    }
+    throw new NotFound("Could not find node with id: " + id);
+  };
+
+  public async getMembership(id: string, vaultId?: string): Promise<Membership> {
+    for (const [recordId, vault] of this.vaults) {
+      if (vaultId && vaultId !== recordId) {
+        continue;
+      }
+      const membership = vault.memberships.find((membership) => membership.id === id);
+      if (membership) {
+        return await this.withContext(recordId, membership);
+      }
+    }
+    throw new NotFound("Could not find membership with id: " + id);
+  };
+
+  public async getVault(id: string, options?: VaultApiGetOptions): Promise<Vault> {
+    const vault = this.getVaultRecord(id);
+    const object = await this.withContext(id, vault.state);
+    if (options?.deep) {
+      object.memberships = await Promise.all(vault.memberships.map((membership) => this.withContext(id, membership)));
+      object.memos = await this.nodesWithContext(id, vault.nodes.filter((node) => node.type === objectType.MEMO));
+      object.stacks = await this.nodesWithContext(id, vault.nodes.filter((node) => node.type === objectType.STACK));
+      object.folders = await this.nodesWithContext(id, vault.nodes.filter((node) => node.type === objectType.FOLDER));
+    }
+    if (options?.withNodes) {
+      object.nodes = await this.nodesWithContext(id, vault.nodes);
+    }
+    return object;
+  };
+
+  public async getMembershipKeys(vaultId: string): Promise<MembershipKeys> {
+    const vault = this.getVaultRecord(vaultId);
+    return {
+      isEncrypted: !vault.state.public,
+      keys: await this.getCallerKeys(vault)
+    };
+  };
+
+  public async getNodeState(stateId: string): Promise<any> {
+    const state = this.states.get(stateId);
+    if (!state) {
+      throw new NotFound("Could not find state with id: " + stateId);
+    }
+    return lodash.cloneDeep(state.data);
+  };
+
+  public async getNodeStateWithTags(stateId: string): Promise<{ state: any, tags?: Tags }> {
+    const state = this.states.get(stateId);
+    if (!state) {
+      throw new NotFound("Could not find state with id: " + stateId);
+    }
+    return lodash.cloneDeep({ state: state.data, tags: state.tags });
+  };
+
+  public async getContractState(objectId: string): Promise<ContractState> {
+    return toContractState(this.getVaultRecord(objectId));
+  };
+
+  public async getMemberships(options: ListOptions = {}): Promise<Paginated<Membership>> {
+    const caller = await this.getCaller();
+    const memberships = [];
+    for (const [vaultId, vault] of this.vaults) {
+      const callerMemberships = vault.memberships
+        .filter((membership) => membership.address === caller.address)
+        .filter((membership) => matchesFilter(membership, options.filter));
+      for (const membership of callerMemberships) {
+        memberships.push(await this.withContext(vaultId, membership));
+      }
+    }
+    return paginate(memberships, options);
+  };
+
+  public async getVaults(options: ListOptions = {}): Promise<Paginated<Vault>> {
+    const caller = await this.getCaller();
+    const vaults = [];
+    for (const [vaultId, vault] of this.vaults) {
+      const membership = vault.memberships.find((membership) => membership.address === caller.address);
+      if (membership
+        && matchesFilter(membership, options.filter)
+        && this.matchesTags(vaultId, options.tags)) {
+        const object = await this.withContext(vaultId, vault.state);
+        object.keys = membership.keys;
+        vaults.push(object);
+      }
+    }
+    return paginate(vaults, options);
+  };
+
+  public async getNodesByVaultId<T>(vaultId: string, type: NodeType, options: ListOptions = {}): Promise<Paginated<T>> {
+    const vault = this.getVaultRecord(vaultId);
+    const nodes = vault.nodes
+      .filter((node) => node.type === type)
+      .filter((node) => !options.parentId || node.parentId === options.parentId)
+      .filter((node) => matchesFilter(node, options.filter))
+      .filter((node) => this.matchesTags(node.id, options.tags));
+    return paginate(await this.nodesWithContext(vaultId, nodes), options);
+  };
+
+  public async getMembershipsByVaultId(vaultId: string, options: ListOptions = {}): Promise<Paginated<Membership>> {
+    const vault = this.getVaultRecord(vaultId);
+    const memberships = vault.memberships.filter((membership) => matchesFilter(membership, options.filter));
+    return paginate(
+      await Promise.all(memberships.map((membership) => this.withContext(vaultId, membership))),
+      options
+    );
+  };
+
+  public async getMembers(vaultId: string): Promise<Array<Membership>> {
+    return lodash.cloneDeep(this.getVaultRecord(vaultId).memberships);
+  };
+
+  public async getTransactions(vaultId: string, options: ListOptions = {}): Promise<Paginated<Transaction>> {
+    const transactions = this.getVaultRecord(vaultId).transactions
+      .filter((transaction) => matchesFilter(transaction, options.filter));
+    return paginate(lodash.cloneDeep(transactions), options);
+  }
+
+  public async getContractInteractions(vaultId: string): Promise<Array<ContractInteraction>> {
+    return lodash.cloneDeep(this.getVaultRecord(vaultId).interactions);
+  }
+
+  private getState(stateId: string): any {
+    const state = this.states.get(stateId);
+    if (!state) {
+      throw new NotFound("Could not find state with id: " + stateId);
+    }
+    return lodash.cloneDeep(state.data);
+  }
+
+  private findMembership(vault: VaultRecord, membershipId: string): any {
+    const membership = vault.memberships.find((membership) => membership.id === membershipId);
+    if (!membership) {
+      throw new NotFound("Could not find membership with id: " + membershipId);
+    }
+    return membership;
+  }
+
+  // notify the other vault members about the transaction
+  private notify(vault: VaultRecord, transaction: Transaction, object: any) {
+    vault.memberships
+      .filter((membership) => membership.address
+        && membership.address !== transaction.address
+        && membership.status !== status.REVOKED)
+      .forEach((membership) => {
+        this.notifications.push({
+          id: uuidv4(),
+          address: membership.address,
+          owner: transaction.address,
+          vaultId: transaction.vaultId,
+          objectId: transaction.objectId,
+          objectType: transaction.objectType,
+          actionRef: transaction.actionRef,
+          transactionId: transaction.id,
+          status: "UNREAD",
+          createdAt: transaction.postedAt,
+          updatedAt: transaction.postedAt,
+          vaultName: vault.state.name,
+          objectName: object?.name
+        } as Notification & { address: string });
+      });
+  }
+
+  private getVaultRecord(vaultId: string): VaultRecord {
+    const vault = this.vaults.get(vaultId);
+    if (!vault) {
+      throw new NotFound("Could not find vault with id: " + vaultId);
+    }
+    return vault;
+  }
+
+  private findUserByEmail(email: string): User {
+    return [...this.users.values()].find((user) => user.email?.toLowerCase() === email?.toLowerCase());
+  }
+
+  private async getCaller(): Promise<User> {
+    const wallet = Crypto.wallet();
+    if (!wallet) {
+      throw new Forbidden("Wallet is required to use the in-memory API");
+    }
+    const address = await wallet.getAddress();
+    if (!this.users.has(address)) {
+      // unknown callers are registered with a placeholder email
+      await this.addUser(wallet, `${address}@memory.local`);
+    }
+    return this.users.get(address);
+  }
+
+  private async getCallerKeys(vault: VaultRecord): Promise<EncryptedKeys[]> {
+    if (vault.state.public) {
+      return undefined;
+    }
+    const caller = await this.getCaller();
+    const membership = vault.memberships.find((membership) => membership.address === caller.address);
+    return membership?.keys;
+  }
+
+  private matchesTags(objectId: string, tags?: ListOptions["tags"]): boolean {
+    if (!tags?.values?.length) {
+      return true;
+    }
+    const objectTags = this.akordTags.get(objectId) || [];
+    const values = tags.values.map((value) => value.toLowerCase());
+    return tags.searchCriteria === "CONTAINS_SOME"
+      ? values.some((value) => objectTags.includes(value))
+      : values.every((value) => objectTags.includes(value));
+  }
+
+  private async nodesWithContext(vaultId: string, nodes: any[]): Promise<any[]> {
+    return await Promise.all(nodes.map((node) => this.withContext(vaultId, node)));
+  }
+
+  private async withContext(vaultId: string, object: any): Promise<any> {
+    const vault = this.getVaultRecord(vaultId);
+    return {
+      ...lodash.cloneDeep(object),
+      __keys__: await this.getCallerKeys(vault),
+      __public__: vault.state.public,
+      __cacheOnly__: vault.state.cacheOnly
+    };
+  }
+}
+
+const getTagValue = (tags: Tags, name: string): string => {
+  return tags?.find((tag) => tag.name === name)?.value;
+}
+
+const paginate = <T>(items: Array<T>, options: ListOptions): Paginated<T> => {
+  const offset = options.nextToken ? parseInt(options.nextToken) : 0;
+  const limit = options.limit || DEFAULT_LIMIT;
+  const nextOffset = offset + limit;
+  return {
+    items: items.slice(offset, nextOffset),
+    nextToken: nextOffset < items.length ? nextOffset.toString() : ""
+  };
+}
+
+const matchesFilter = (item: any, filter?: any): boolean => {
+  if (!filter) {
+    return true;
+  }
+  return Object.entries(filter).every(([key, condition]: [string, any]) => {
+    if (key === "and") {
+      return matchesFilter(item, condition);
+    } else if (key === "or") {
+      return (condition as any[]).some((orFilter) => matchesFilter(item, orFilter));
+    }
+    return Object.entries(condition).every(([operator, value]) => {
+      switch (operator) {
+        case "eq":
+          return item[key] === value;
+        case "ne":
+          return item[key] !== value;
+        case "in":
+          return (value as any[]).includes(item[key]);
+        case "gt":
+          return item[key] > value;
+        case "lt":
+          return item[key] < value;
+        case "beginsWith":
+          return typeof item[key] === "string" && item[key].startsWith(value);
+        default:
+          throw new BadRequest("Filter operator is not supported: " + operator);
+      }
+    });
+  });
+}
+
+export {
+  MemoryApi
+}
@@ -0,0 +1,43 @@
+import { BadRequest } from "../errors/bad-request";
+import { TransportRequest, TransportResponse } from "./transport";
+
+export type MiddlewareContext = {
+  operation: "fetch" | "upload" | "download",
+  request: TransportRequest // method, url & headers (including x-amz-meta-tags) of the outgoing request, can be modified in place
+}
+
+/**
+ * Wraps Akord API requests, middleware is run in the registration order
+ * Call next() to pass the request down the chain & receive the response
+ * or return a response without calling it to short-circuit the request (ex: cached response)
+ */
+export type Middleware = (context: MiddlewareContext, next: () => Promise<TransportResponse>) => Promise<TransportResponse>
+
+/**
+ * Runs the request through the middleware chain
+ * @param  {Middleware[]} middleware
+ * @param  {MiddlewareContext} context
+ * @param  {()=>Promise<TransportResponse>} handler sends the request
+ * @returns Promise with the response returned by the first middleware, headers default to {}
+ */
+export const runMiddleware = async (
+  middleware: Middleware[],
+  context: MiddlewareContext,
+  handler: () => Promise<TransportResponse>
+): Promise<TransportResponse> => {
+  const dispatch = async (index: number): Promise<TransportResponse> => {
+    if (index >= middleware.length) {
+      return handler();
+    }
+    return normalizeResponse(await middleware[index](context, () => dispatch(index + 1)));
+  }
+  return dispatch(0);
+}
+
+// short-circuit responses are built by the middleware & may omit the optional parts
+const normalizeResponse = (response: TransportResponse): TransportResponse => {
+  if (!response || typeof response !== "object" || typeof response.status !== "number") {
+    throw new BadRequest("Middleware must resolve with a response: { status, headers, data }");
+  }
+  return response.headers ? response : { ...response, headers: {} };
+}
@@ -0,0 +1,102 @@
+import { Logger } from "../logger";
+import { isCancel } from "./transport";
+
+export type RetryOptions = {
+  maxRetries?: number, // the number of retries after the first failed attempt, set to 0 to disable retries (default to 3)
+  initialDelay?: number, // delay before the first retry in ms (default to 500)
+  maxDelay?: number, // upper bound of the backoff delay & the Retry-After delay in ms (default to 10000)
+  factor?: number, // exponential backoff factor (default to 2)
+  jitter?: boolean // randomize delays to spread the retries of concurrent requests (default to true)
+}
+
+export const defaultRetryOptions = {
+  maxRetries: 3,
+  initialDelay: 500,
+  maxDelay: 10000,
+  factor: 2,
+  jitter: true
+} as RetryOptions;
+
+// statuses worth retrying if the request can be safely repeated
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// network errors raised before the request reached the server
+const CONNECTION_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Repeats the request with exponential backoff
+ * @param  {() => Promise<T>} request
+ * @param  {{method:string,url:string,idempotent:boolean,logger?:Logger}} context
+ * - idempotent requests are retried on any transient failure
+ * - non-idempotent requests (ex: contract transactions) are retried only if the server did not process them
+ * @param  {RetryOptions} [options]
+ * @returns Promise with the request response
+ */
+export const retry = async <T>(
+  request: () => Promise<T>,
+  context: { method: string, url: string, idempotent: boolean, logger?: Logger },
+  options: RetryOptions = defaultRetryOptions
+): Promise<T> => {
+  const retryOptions = {
+    ...defaultRetryOptions,
+    ...options
+  }
+  let attempt = 0;
+  while (true) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= retryOptions.maxRetries || !isRetryable(error, context.idempotent)) {
+        throw error;
+      }
+      const delay = getDelay(error, attempt, retryOptions);
+      attempt++;
+      (context.logger || Logger.default).info("Retrying API request", {
+        method: context.method.toUpperCase(),
+        url: context.url,
+        attempt: attempt,
+        maxRetries: retryOptions.maxRetries,
+        delay: delay,
+        error: error
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export const isRetryable = (error: any, idempotent: boolean): boolean => {
+  if (isCancel(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (!status) {
+    return idempotent || CONNECTION_ERROR_CODES.includes(error.code);
+  }
+  if (status === 429) {
+    // the request was rejected before processing
+    return true;
+  }
+  return idempotent && RETRYABLE_STATUSES.includes(status);
+}
+
+const getDelay = (error: any, attempt: number, options: RetryOptions): number => {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return Math.min(options.maxDelay, retryAfter);
+  }
+  const delay = Math.min(options.maxDelay, options.initialDelay * Math.pow(options.factor, attempt));
+  return Math.round(options.jitter ? delay / 2 + Math.random() * delay / 2 : delay);
+}
+
+const getRetryAfter = (error: any): number => {
+  const header = error.response?.headers?.["retry-after"];
+  if (error.response?.status !== 429 || !header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,106 @@
+export type SchedulerOptions = {
+  maxConcurrentRequests?: number, // max concurrent metadata requests per host (default to 16)
+  maxConcurrentTransfers?: number, // max concurrent file uploads & downloads per host (default to 4)
+  requestsPerSecond?: number // requests started per second across all hosts (default to unlimited)
+}
+
+export const defaultSchedulerOptions = {
+  maxConcurrentRequests: 16,
+  maxConcurrentTransfers: 4,
+  requestsPerSecond: Infinity
+} as SchedulerOptions;
+
+/**
+ * - metadata: Akord API calls, contract transactions & state uploads
+ * - transfer: file data uploads & downloads
+ */
+export type SchedulerQueue = "metadata" | "transfer"
+
+/**
+ * Shapes the API traffic of an Akord instance
+ * Requests over the concurrency limit wait in a FIFO queue for their host,
+ * request starts are spaced evenly to respect the requests per second budget
+ */
+export class Scheduler {
+  private options: SchedulerOptions;
+  private running = new Map<string, number>();
+  private waiting = new Map<string, Array<() => void>>();
+  private nextSlot = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.options = {
+      ...defaultSchedulerOptions,
+      ...options
+    }
+  }
+
+  /**
+   * @param  {string} url request url, used to group requests by host
+   * @param  {SchedulerQueue} queue
+   * @param  {()=>Promise<T>} request
+   * @returns Promise with the request result
+   */
+  public async schedule<T>(url: string, queue: SchedulerQueue, request: () => Promise<T>): Promise<T> {
+    const key = queue + ":" + getHost(url);
+    await this.acquire(key, queue === "transfer" ? this.options.maxConcurrentTransfers : this.options.maxConcurrentRequests);
+    try {
+      await this.throttle();
+      return await request();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  private acquire(key: string, limit: number): Promise<void> {
+    const running = this.running.get(key) || 0;
+    if (running < limit) {
+      this.running.set(key, running + 1);
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      if (!this.waiting.has(key)) {
+        this.waiting.set(key, []);
+      }
+      this.waiting.get(key).push(resolve);
+    });
+  }
+
+  private release(key: string) {
+    const waiting = this.waiting.get(key);
+    if (waiting?.length) {
+      // hand the slot over to the next request in the queue
+      const next = waiting.shift();
+      if (!waiting.length) {
+        this.waiting.delete(key);
+      }
+      next();
+    } else {
+      const running = this.running.get(key) - 1;
+      if (running > 0) {
+        this.running.set(key, running);
+      } else {
+        this.running.delete(key);
+      }
+    }
+  }
+
+  private async throttle() {
+    if (!this.options.requestsPerSecond || !isFinite(this.options.requestsPerSecond)) {
+      return;
+    }
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.options.requestsPerSecond;
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+}
@@ -0,0 +1,48 @@
+export type ProgressEvent = {
+  loaded: number,
+  total?: number
+}
+
+export type TransportRequest = {
+  method: string,
+  url: string,
+  headers?: { [name: string]: string },
+  data?: any,
+  responseType?: string, // json, arraybuffer or stream (default to json)
+  signal?: AbortSignal // aborts the request
+}
+
+export type TransportResponse<T = any> = {
+  status: number,
+  headers: { [name: string]: string }, // lower-cased header names
+  data: T
+}
+
+/**
+ * HTTP transport used by the Akord API client & Arweave helpers
+ * Failed requests should reject with TransportError (or an error exposing the same response shape)
+ */
+export interface Transport {
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>
+
+  upload<T = any>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>>
+
+  download<T = any>(request: TransportRequest, onProgress?: (event: ProgressEvent) => void): Promise<TransportResponse<T>>
+}
+
+export class TransportError extends Error {
+  response?: TransportResponse;
+  code?: string;
+
+  constructor(message: string, response?: TransportResponse, code?: string) {
+    super(message);
+    this.response = response;
+    this.code = code;
+  }
+}
+
+export const isCancel = (error: any): boolean => {
+  return error?.name === "AbortError"
+    || error?.name === "CanceledError"
+    || error?.code === "ERR_CANCELED";
+}
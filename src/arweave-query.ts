@@ -0,0 +1,164 @@
+import { ArweaveClient, TransactionMetadata, TRANSACTION_FIELDS } from "./arweave";
+import { dataTags, functions, protocolTags } from "./constants";
+import { BadRequest } from "./errors/bad-request";
+import { Paginated } from "./types/paginated";
+import { paginate } from "./core/common";
+
+const DEFAULT_LIMIT = 100; // max page size of the arweave.net gateway
+
+export type TagFilter = {
+  name: string,
+  values: string[]
+}
+
+export type ArweaveListOptions = {
+  limit?: number, // the limit of the number of transactions in a page (default to 100)
+  nextToken?: string,
+  order?: "asc" | "desc", // by block height, default to desc
+  filters?: TagFilter[] // additional tag filters, ex: { name: "Function-Name", values: ["node:create"] }
+}
+
+const getTransactionsByTags = /* GraphQL */ `
+query transactionsByTags($tags: [TagFilter!], $first: Int, $after: String, $sort: SortOrder) {
+  transactions(tags: $tags, first: $first, after: $after, sort: $sort) {
+    pageInfo {
+      hasNextPage
+    }
+    edges {
+      cursor
+      node {${TRANSACTION_FIELDS}      }
+    }
+  }
+}
+`;
+
+/**
+ * Queries the Akord protocol transactions straight from Arweave, by the protocol tags
+ * Transactions are indexed by the gateways once posted to Arweave, the latest ones may not be listed yet
+ */
+class ArweaveQuery {
+  private arweave: ArweaveClient;
+
+  /**
+   * @param  {ArweaveClient} [arweave] default to arweave.net gateway
+   */
+  constructor(arweave: ArweaveClient = new ArweaveClient()) {
+    this.arweave = arweave;
+  }
+
+  /**
+   * @param  {TagFilter[]} tags transactions matching all the tag filters
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with paginated transaction metadata
+   */
+  public async list(tags: TagFilter[], options: ArweaveListOptions = {}): Promise<Paginated<TransactionMetadata>> {
+    const result = await this.arweave.graphql(getTransactionsByTags, {
+      tags: tags.concat(options.filters || []),
+      first: options.limit || DEFAULT_LIMIT,
+      after: options.nextToken || undefined,
+      sort: options.order === "asc" ? "HEIGHT_ASC" : "HEIGHT_DESC"
+    });
+    if (!result?.data?.transactions) {
+      throw new BadRequest("Cannot query arweave transactions: " + result?.errors?.map((error: any) => error.message).join(", "));
+    }
+    const { pageInfo, edges } = result.data.transactions;
+    return {
+      items: edges.map((edge: any) => edge.node),
+      nextToken: pageInfo.hasNextPage && edges.length ? edges[edges.length - 1].cursor : ""
+    }
+  }
+
+  /**
+   * @param  {TagFilter[]} tags transactions matching all the tag filters
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with all transaction metadata
+   */
+  public async listAll(tags: TagFilter[], options: ArweaveListOptions = {}): Promise<Array<TransactionMetadata>> {
+    const list = async (listOptions: ArweaveListOptions) => {
+      return await this.list(tags, listOptions);
+    }
+    return await paginate<TransactionMetadata>(list, { ...options });
+  }
+
+  /**
+   * @param  {string} vaultId
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with paginated vault contract interactions
+   */
+  public async listVaultInteractions(vaultId: string, options: ArweaveListOptions = {}): Promise<Paginated<TransactionMetadata>> {
+    return await this.list(vaultInteractionTags(vaultId), options);
+  }
+
+  /**
+   * @param  {string} vaultId
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with all vault contract interactions
+   */
+  public async listAllVaultInteractions(vaultId: string, options: ArweaveListOptions = {}): Promise<Array<TransactionMetadata>> {
+    return await this.listAll(vaultInteractionTags(vaultId), options);
+  }
+
+  /**
+   * @param  {string} nodeId
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with paginated node states
+   */
+  public async listNodeStates(nodeId: string, options: ArweaveListOptions = {}): Promise<Paginated<TransactionMetadata>> {
+    return await this.list(nodeStateTags(nodeId), options);
+  }
+
+  /**
+   * @param  {string} nodeId
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with all node states
+   */
+  public async listAllNodeStates(nodeId: string, options: ArweaveListOptions = {}): Promise<Array<TransactionMetadata>> {
+    return await this.listAll(nodeStateTags(nodeId), options);
+  }
+
+  /**
+   * @param  {string} address signer address
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with paginated uploads (states & files) signed by the address
+   */
+  public async listSignerUploads(address: string, options: ArweaveListOptions = {}): Promise<Paginated<TransactionMetadata>> {
+    return await this.list(signerTags(address), options);
+  }
+
+  /**
+   * @param  {string} address signer address
+   * @param  {ArweaveListOptions} [options]
+   * @returns Promise with all uploads (states & files) signed by the address
+   */
+  public async listAllSignerUploads(address: string, options: ArweaveListOptions = {}): Promise<Array<TransactionMetadata>> {
+    return await this.listAll(signerTags(address), options);
+  }
+}
+
+const vaultInteractionTags = (vaultId: string): TagFilter[] => [
+  { name: protocolTags.VAULT_ID, values: [vaultId] },
+  { name: protocolTags.FUNCTION_NAME, values: Object.values(functions) }
+];
+
+const nodeStateTags = (nodeId: string): TagFilter[] => [
+  { name: protocolTags.NODE_ID, values: [nodeId] },
+  { name: dataTags.DATA_TYPE, values: ["State"] }
+];
+
+const signerTags = (address: string): TagFilter[] => [
+  { name: protocolTags.SIGNER_ADDRESS, values: [address] }
+];
+
+/**
+ * @param  {TransactionMetadata} transaction
+ * @param  {string} name tag name, ex: protocolTags.FUNCTION_NAME
+ * @returns the tag value, undefined if the transaction is not tagged with the name
+ */
+const getTagValue = (transaction: TransactionMetadata, name: string): string => {
+  return transaction.tags?.find((tag) => tag.name === name)?.value;
+}
+
+export {
+  ArweaveQuery,
+  getTagValue
+}
@@ -1,46 +1,189 @@
-import axios, { AxiosRequestConfig } from "axios";
 import { throwError } from "./errors/error-factory";
 import { NotFound } from "./errors/not-found";
 import { Tags } from "./types/contract";
+import { ApiConfig } from "./api/config";
+import { Transport, TransportError, TransportRequest, TransportResponse } from "./api/transport";
+import { AxiosTransport } from "./api/axios-transport";
+import { Logger } from "./logger";
 
-const ARWEAVE_URL = "https://arweave.net/";
+const ARWEAVE_URL = "https://arweave.net";
 
 const DEFAULT_RESPONSE_TYPE = "arraybuffer";
+const STREAM_RESPONSE_TYPE = "stream";
 
-const getTxData = async (id: string, responseType = DEFAULT_RESPONSE_TYPE) => {
-  const config = {
-    method: "get",
-    url: ARWEAVE_URL + id,
-    responseType: responseType
-  } as AxiosRequestConfig;
-  try {
-    const response = await axios(config);
-    if (response.status == 200 || response.status == 202) {
-      return responseType === DEFAULT_RESPONSE_TYPE && typeof window === 'undefined'
-        ? bufferToArrayBuffer(response.data)
-        : response.data;
-    } else {
-      throwError(response?.status, response?.data?.msg);
+export const DEFAULT_GATEWAY_TIMEOUT = 30000;
+export const DEFAULT_GATEWAY_COOLDOWN = 60000;
+
+const defaultTransport = new AxiosTransport();
+
+export type ArweaveOptions = {
+  gateways?: string[], // ordered by preference, default to [arweaveurl]
+  timeout?: number, // per gateway request timeout in ms (default to 30000), for streams it applies until the response headers
+  cooldown?: number // time in ms a failing gateway is moved to the end of the list (default to 60000)
+}
+
+export type ArweaveClientOptions = ArweaveOptions & {
+  transport?: Transport,
+  logger?: Logger
+}
+
+export type TxDataOptions = {
+  stream?: boolean // resolve with the response stream instead of the buffered data
+}
+
+export type ArweaveConfig = Pick<ApiConfig, "arweaveurl" | "arweave" | "transport">;
+
+type GatewayHealth = {
+  failures: number,
+  unhealthyUntil: number
+}
+
+/**
+ * Arweave gateway client for transaction data & GraphQL queries
+ * Gateways are tried in the given order, failing gateways are moved to the end of the list for the cooldown period
+ */
+export class ArweaveClient {
+  private gateways: string[];
+  private timeout: number;
+  private cooldown: number;
+  private transport: Transport;
+  private logger: Logger;
+  private health = new Map<string, GatewayHealth>();
+
+  /**
+   * @param  {ArweaveClientOptions} [options]
+   */
+  constructor(options: ArweaveClientOptions = {}) {
+    const gateways = (options.gateways || []).filter((gateway) => gateway);
+    this.gateways = (gateways.length ? gateways : [ARWEAVE_URL])
+      .map((gateway) => gateway.replace(/\/+$/, ""));
+    this.timeout = options.timeout || DEFAULT_GATEWAY_TIMEOUT;
+    this.cooldown = options.cooldown ?? DEFAULT_GATEWAY_COOLDOWN;
+    this.transport = options.transport || defaultTransport;
+    this.logger = options.logger || Logger.default;
+  }
+
+  /**
+   * @param  {string} id arweave transaction id
+   * @param  {TxDataOptions} [options] stream or buffer the data
+   * @returns Promise with the transaction data as ArrayBuffer or as stream (Readable on Node.js with axios, ReadableStream with fetch)
+   */
+  public async getTxData(id: string, options: TxDataOptions = {}): Promise<any> {
+    if (options.stream) {
+      const response = await this.send(id, { method: "get", responseType: STREAM_RESPONSE_TYPE }, true);
+      return response.data;
     }
-  } catch (error) {
-    throwError(error.response?.status, error.response?.data?.msg, error);
+    const response = await this.send(id, { method: "get", responseType: DEFAULT_RESPONSE_TYPE });
+    return typeof window === 'undefined' && !(response.data instanceof ArrayBuffer)
+      ? bufferToArrayBuffer(response.data)
+      : response.data;
+  }
+
+  /**
+   * @param  {string} id arweave transaction id
+   * @returns Promise with the transaction metadata: owner, data type & size, tags & block timestamp
+   */
+  public async getTxMetadata(id: string): Promise<TransactionMetadata> {
+    const result = await this.graphql(getTransaction, { id });
+    const txMetadata = result?.data?.transactions?.edges[0]?.node;
+    if (!txMetadata) {
+      throw new NotFound("Cannot fetch arweave transaction metadata: " + id);
+    }
+    return txMetadata;
+  }
+
+  /**
+   * @param  {string} query GraphQL query
+   * @param  {any} [variables] query variables
+   * @returns Promise with the GraphQL response: { data, errors }
+   */
+  public async graphql<T = any>(query: string, variables?: any): Promise<{ data?: T, errors?: any[] }> {
+    const response = await this.send("graphql", {
+      method: "post",
+      headers: {
+        'content-type': 'application/json'
+      },
+      data: JSON.stringify({ query, variables })
+    });
+    return response.data;
+  }
+
+  private async send(path: string, request: Omit<TransportRequest, "url">, stream = false): Promise<TransportResponse> {
+    let lastError: any;
+    let lastRequest: TransportRequest;
+    for (const gateway of this.getGateways()) {
+      const controller = new AbortController();
+      let timedOut = false;
+      const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeout);
+      const gatewayRequest = { ...request, url: `${gateway}/${path}`, signal: controller.signal } as TransportRequest;
+      lastRequest = gatewayRequest;
+      try {
+        const response = stream
+          ? await this.transport.download(gatewayRequest)
+          : await this.transport.request(gatewayRequest);
+        if (response.status !== 200 && response.status !== 202) {
+          throw new TransportError("Request failed with status code " + response.status, response);
+        }
+        this.health.delete(gateway);
+        return response;
+      } catch (error) {
+        lastError = timedOut
+          ? new TransportError(`Gateway did not respond within ${this.timeout} ms`, undefined, "ETIMEDOUT")
+          : error;
+        const status = lastError.response?.status;
+        if (status && status < 500 && status !== 404 && status !== 429) {
+          // the request itself is invalid, other gateways would reject it too
+          break;
+        }
+        if (status !== 404) {
+          // data may not be propagated to every gateway yet, do not penalize it for missing transactions
+          this.markUnhealthy(gateway);
+        }
+        this.logger.info("Arweave gateway request failed", { gateway: gateway, path: path, error: lastError });
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+    throwError(lastError.response?.status, lastError.response?.data?.msg, lastError, lastRequest);
+  }
+
+  private getGateways(): string[] {
+    const now = Date.now();
+    const isHealthy = (gateway: string) => !(this.health.get(gateway)?.unhealthyUntil > now);
+    // unhealthy gateways are kept as the last resort, the earliest to recover first
+    const unhealthy = this.gateways
+      .filter((gateway) => !isHealthy(gateway))
+      .sort((a, b) => this.health.get(a).unhealthyUntil - this.health.get(b).unhealthyUntil);
+    return this.gateways.filter(isHealthy).concat(unhealthy);
   }
-};
 
-const getTxMetadata = async (id: string): Promise<TransactionMetadata> => {
-  const result = await graphql(getTransaction, { id });
-  const txMetadata = result?.data?.transactions?.edges[0]?.node;
-  if (!txMetadata) {
-    throw new NotFound("Cannot fetch arweave transaction metadata: " + id);
+  private markUnhealthy(gateway: string) {
+    const failures = (this.health.get(gateway)?.failures || 0) + 1;
+    this.health.set(gateway, { failures, unhealthyUntil: Date.now() + this.cooldown });
+    this.logger.debug("Arweave gateway marked as unhealthy", { gateway: gateway, failures: failures });
   }
-  return txMetadata;
+}
+
+const getClient = (config: ArweaveConfig): ArweaveClient => {
+  return config.arweave || new ArweaveClient({
+    gateways: config.arweaveurl ? [config.arweaveurl] : undefined,
+    transport: config.transport
+  });
+}
+
+const getTxData = async (id: string, config: ArweaveConfig = {}, responseType = DEFAULT_RESPONSE_TYPE) => {
+  return getClient(config).getTxData(id, { stream: responseType === STREAM_RESPONSE_TYPE });
 };
 
-const getTransaction = /* GraphQL */ `
-query transactionsById($id: ID!) {
-  transactions(ids:[$id]) {
-    edges {
-      node {
+const getTxMetadata = async (id: string, config: ArweaveConfig = {}): Promise<TransactionMetadata> => {
+  return getClient(config).getTxMetadata(id);
+};
+
+// fields of the TransactionMetadata
+export const TRANSACTION_FIELDS = /* GraphQL */ `
         id
         owner {
           address
@@ -55,29 +198,19 @@ query transactionsById($id: ID!) {
         }
         block {
           timestamp
+          height
         }
-      }
-    }
-  }
-}
 `;
 
-const graphql = async (query: any, variables: any) => {
-  try {
-    const config = {
-      url: ARWEAVE_URL + "graphql",
-      method: <any>'post',
-      headers: {
-        'content-type': 'application/json'
-      },
-      data: JSON.stringify({ query, variables }),
-    };
-    const response = await axios(config);
-    return response.data;
-  } catch (error) {
-    throwError(error.response?.status, error.response?.data?.msg, error);
+const getTransaction = /* GraphQL */ `
+query transactionsById($id: ID!) {
+  transactions(ids:[$id]) {
+    edges {
+      node {${TRANSACTION_FIELDS}      }
+    }
   }
 }
+`;
 
 const bufferToArrayBuffer = (buffer: Buffer) => {
   const arrayBuffer = new ArrayBuffer(buffer.length);
@@ -93,10 +226,10 @@ export type TransactionMetadata = {
   owner: { address: string },
   data: { type: string, size: string },
   tags: Tags,
-  block: { timestamp: number }
+  block: { timestamp: number, height: number } // null for pending transactions
 }
 
 export {
   getTxData,
   getTxMetadata
-}
\ No newline at end of file
+}
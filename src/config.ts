@@ -1,11 +1,33 @@
 import { Api } from "./api/api"
+import { RetryOptions } from "./api/retry"
+import { Transport } from "./api/transport"
+import { Middleware } from "./api/middleware"
+import { SchedulerOptions } from "./api/scheduler"
+import { ChangeFeed } from "./core/watch"
+import { LogLevel, LogSink } from "./logger"
+import { ArweaveOptions } from "./arweave"
+import { StateVerificationMode } from "./types/object"
 
 export interface ClientConfig {
   env?: "dev" | "v2"
-  debug?: boolean,
-  cache?: boolean,
+  apiurl?: string // custom Akord API endpoint, overrides the env one
+  storageurl?: string // custom storage endpoint, overrides the env one
+  arweaveurl?: string // custom Arweave gateway, default to https://arweave.net
+  arweave?: ArweaveOptions // Arweave gateways with failover, overrides the arweaveurl
+  debug?: boolean, // shortcut for logLevel: "debug"
+  logLevel?: LogLevel // default to warn
+  logSinks?: LogSink[] // default to console
+  cache?: boolean, // cache profile & vault contexts
+  cacheTTL?: number // vault context cache TTL in ms (default to 5 minutes)
+  stateVerification?: StateVerificationMode // verify the signatures of the vault, node & membership states (default to off)
   api?: Api,
   storage?: Storage
   authToken?: string
   apiKey?: string
+  retry?: RetryOptions
+  transport?: Transport // HTTP transport, default to axios
+  middleware?: Middleware[] // Akord API request middleware, run in the given order
+  scheduler?: SchedulerOptions // concurrency & rate limits of the API traffic
+  changeFeed?: ChangeFeed // source of the watch subscriptions (ex: WebSocket or SSE), default to polling the vault transactions
+  pollingInterval?: number // interval of the default change feed in ms (default to 5000)
 }
\ No newline at end of file
@@ -55,6 +55,7 @@ export enum actionRefs {
   MEMBERSHIP_KEY_ROTATE = "MEMBERSHIP_KEY_ROTATE",
   MEMBERSHIP_CHANGE_ROLE = "MEMBERSHIP_CHANGE_ACCESS",
   MEMBERSHIP_PROFILE_UPDATE = "MEMBERSHIP_PROFILE_UPDATE",
+  MEMBERSHIP_SEARCH_INDEX_UPDATE = "MEMBERSHIP_SEARCH_INDEX_UPDATE",
   MEMBERSHIP_OWNER = "MEMBERSHIP_OWNER",
   MEMBERSHIP_CONFIRM = "MEMBERSHIP_CONFIRM",
   MEMO_CREATE = "MEMO_CREATE",
@@ -0,0 +1,350 @@
+import { BadRequest } from "../errors/bad-request";
+import { IntegrityError } from "../errors/integrity-error";
+
+export type ArchiveFormat = "zip" | "tar" | "directory";
+
+export type ArchiveEntry = {
+  path: string, // relative path with "/" separators, directories end with "/"
+  size: number
+}
+
+/**
+ * Writes the entries sequentially to the local file system (Node.js only),
+ * the file contents are consumed chunk by chunk & never held in memory as a whole
+ */
+export interface ArchiveWriter {
+  /**
+   * @param  {string} path relative path with "/" separators
+   */
+  addDirectory(path: string, modifiedAt?: number): Promise<void>
+
+  /**
+   * A failed entry is discarded, so that the archive stays valid
+   * @param  {string} path relative path with "/" separators
+   * @param  {number} size expected file size in bytes
+   * @param  {AsyncIterable<Uint8Array>|Iterable<Uint8Array>} chunks file contents
+   */
+  addFile(path: string, size: number, chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, modifiedAt?: number): Promise<void>
+
+  close(): Promise<void>
+}
+
+/**
+ * @param  {ArchiveFormat} format
+ * @param  {string} path archive file path, or the target directory
+ * @param  {ArchiveEntry[]} [entries] expected entries, checked against the format limits before anything is written
+ * @returns Promise with the archive writer
+ */
+export const createArchiveWriter = async (format: ArchiveFormat, path: string, entries: ArchiveEntry[] = []): Promise<ArchiveWriter> => {
+  if (typeof window !== "undefined") {
+    throw new BadRequest("Writing archives is supported in Node.js only.");
+  }
+  if (format === "zip") {
+    checkZipLimits(entries);
+  }
+  const fs = (await import("fs")).default;
+  if (format === "directory") {
+    await fs.promises.mkdir(path, { recursive: true });
+    return new DirectoryWriter(fs, path);
+  }
+  const handle = await fs.promises.open(path, "w");
+  if (format === "zip") {
+    return new ZipWriter(handle);
+  } else if (format === "tar") {
+    return new TarWriter(handle);
+  }
+  await handle.close();
+  throw new BadRequest("Unknown archive format: " + format + ", expected one of: zip, tar, directory");
+}
+
+type FileHandle = import("fs").promises.FileHandle;
+
+class DirectoryWriter implements ArchiveWriter {
+  constructor(private fs: typeof import("fs"), private root: string) { }
+
+  async addDirectory(path: string): Promise<void> {
+    await this.fs.promises.mkdir(this.resolve(path), { recursive: true });
+  }
+
+  async addFile(path: string, size: number, chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>): Promise<void> {
+    const target = this.resolve(path);
+    await this.fs.promises.mkdir(target.substring(0, target.lastIndexOf("/")), { recursive: true });
+    const handle = await this.fs.promises.open(target, "w");
+    try {
+      await writeChunks(handle, 0, size, chunks, path);
+      await handle.close();
+    } catch (error) {
+      await handle.close();
+      await this.fs.promises.unlink(target);
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> { }
+
+  private resolve(path: string): string {
+    return this.root.replace(/\/+$/, "") + "/" + path;
+  }
+}
+
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAX_SIZE = 0o77777777777;
+
+// POSIX ustar, with pax headers for the long paths & large files
+class TarWriter implements ArchiveWriter {
+  private position = 0;
+
+  constructor(private handle: FileHandle) { }
+
+  async addDirectory(path: string, modifiedAt = Date.now()): Promise<void> {
+    await this.writeHeader(path.replace(/\/?$/, "/"), 0, modifiedAt, "5");
+  }
+
+  async addFile(path: string, size: number, chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, modifiedAt = Date.now()): Promise<void> {
+    const start = this.position;
+    try {
+      await this.writeHeader(path, size, modifiedAt, "0");
+      this.position += await writeChunks(this.handle, this.position, size, chunks, path);
+      await this.write(new Uint8Array(padding(size)));
+    } catch (error) {
+      // the next entry overwrites the discarded one
+      this.position = start;
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.write(new Uint8Array(2 * TAR_BLOCK_SIZE));
+    await this.handle.truncate(this.position);
+    await this.handle.close();
+  }
+
+  private async writeHeader(path: string, size: number, modifiedAt: number, type: string) {
+    const name = Buffer.from(path);
+    const records = [] as string[];
+    let prefix = Buffer.alloc(0);
+    let shortName = name;
+    if (name.length > 100) {
+      const split = path.lastIndexOf("/", path.length - 2);
+      const [head, tail] = [Buffer.from(path.substring(0, split)), Buffer.from(path.substring(split + 1))];
+      if (split > 0 && head.length <= 155 && tail.length <= 100) {
+        [prefix, shortName] = [head, tail];
+      } else {
+        records.push(paxRecord("path", path));
+        shortName = name.subarray(0, 100);
+      }
+    }
+    if (size > TAR_MAX_SIZE) {
+      records.push(paxRecord("size", size.toString()));
+    }
+    if (records.length) {
+      const pax = Buffer.from(records.join(""));
+      await this.write(ustarHeader(Buffer.from("PaxHeader"), Buffer.alloc(0), pax.length, modifiedAt, "x"));
+      await this.write(pax);
+      await this.write(new Uint8Array(padding(pax.length)));
+    }
+    await this.write(ustarHeader(shortName, prefix, size > TAR_MAX_SIZE ? 0 : size, modifiedAt, type));
+  }
+
+  private async write(data: Uint8Array) {
+    await this.handle.write(data, 0, data.length, this.position);
+    this.position += data.length;
+  }
+}
+
+const ustarHeader = (name: Buffer, prefix: Buffer, size: number, modifiedAt: number, type: string): Buffer => {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  name.copy(header, 0);
+  header.write(octal(type === "5" ? 0o755 : 0o644, 8), 100);
+  header.write(octal(0, 8), 108);
+  header.write(octal(0, 8), 116);
+  header.write(octal(size, 12), 124);
+  header.write(octal(Math.floor(modifiedAt / 1000), 12), 136);
+  header.write(" ".repeat(8), 148);
+  header.write(type, 156);
+  header.write("ustar\0" + "00", 257);
+  prefix.copy(header, 345);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(octal(checksum, 7) + " ", 148);
+  return header;
+}
+
+// zero padded octal number terminated with NUL
+const octal = (value: number, length: number): string => {
+  return value.toString(8).padStart(length - 1, "0") + "\0";
+}
+
+// the length prefix counts itself
+const paxRecord = (key: string, value: string): string => {
+  const record = " " + key + "=" + value + "\n";
+  let length = Buffer.byteLength(record);
+  while (length !== Buffer.byteLength(length + record)) {
+    length = Buffer.byteLength(length + record);
+  }
+  return length + record;
+}
+
+const padding = (size: number): number => {
+  return (TAR_BLOCK_SIZE - size % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE;
+}
+
+const ZIP_MAX_SIZE = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+// stored entries (no compression), without zip64 extensions
+class ZipWriter implements ArchiveWriter {
+  private position = 0;
+  private entries = [] as Array<{ name: Buffer, crc: number, size: number, offset: number, time: number, date: number, isDirectory: boolean }>;
+
+  constructor(private handle: FileHandle) { }
+
+  async addDirectory(path: string, modifiedAt = Date.now()): Promise<void> {
+    await this.addEntry(path.replace(/\/?$/, "/"), 0, modifiedAt, true);
+  }
+
+  async addFile(path: string, size: number, chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, modifiedAt = Date.now()): Promise<void> {
+    if (size >= ZIP_MAX_SIZE || this.position + size >= ZIP_MAX_SIZE) {
+      throw new BadRequest("The zip archive cannot exceed 4 GB, please use the tar format instead.");
+    }
+    await this.addEntry(path, size, modifiedAt, false, chunks);
+  }
+
+  async close(): Promise<void> {
+    const offset = this.position;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0800, 8); // utf-8 names
+      header.writeUInt16LE(0, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.size, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.isDirectory ? 0x10 : 0, 38);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(header);
+      await this.write(entry.name);
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.position - offset, 12);
+    end.writeUInt32LE(offset, 16);
+    await this.write(end);
+    await this.handle.truncate(this.position);
+    await this.handle.close();
+  }
+
+  private async addEntry(path: string, size: number, modifiedAt: number, isDirectory: boolean, chunks?: AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
+    if (this.entries.length >= ZIP_MAX_ENTRIES) {
+      throw new BadRequest("The zip archive cannot exceed " + ZIP_MAX_ENTRIES + " entries, please use the tar format instead.");
+    }
+    const name = Buffer.from(path);
+    const { time, date } = dosDateTime(new Date(modifiedAt));
+    const offset = this.position;
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0800, 6);
+    header.writeUInt16LE(0, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(size, 18);
+    header.writeUInt32LE(size, 22);
+    header.writeUInt16LE(name.length, 26);
+    try {
+      await this.write(header);
+      await this.write(name);
+      let crc = 0;
+      if (chunks) {
+        this.position += await writeChunks(this.handle, this.position, size, chunks, path, (chunk) => crc = crc32(chunk, crc));
+      }
+      // the checksum is known once the data is written
+      const checksum = Buffer.alloc(4);
+      checksum.writeUInt32LE(crc, 0);
+      await this.handle.write(checksum, 0, 4, offset + 14);
+      this.entries.push({ name, crc, size, offset, time, date, isDirectory });
+    } catch (error) {
+      // the next entry overwrites the discarded one
+      this.position = offset;
+      throw error;
+    }
+  }
+
+  private async write(data: Uint8Array) {
+    await this.handle.write(data, 0, data.length, this.position);
+    this.position += data.length;
+  }
+}
+
+const ZIP_LOCAL_HEADER_SIZE = 30;
+const ZIP_CENTRAL_HEADER_SIZE = 46;
+const ZIP_END_SIZE = 22;
+
+const checkZipLimits = (entries: ArchiveEntry[]) => {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new BadRequest("The zip archive cannot exceed " + ZIP_MAX_ENTRIES + " entries, please use the tar format instead.");
+  }
+  const size = entries.reduce((sum, entry) =>
+    sum + ZIP_LOCAL_HEADER_SIZE + ZIP_CENTRAL_HEADER_SIZE + 2 * Buffer.byteLength(entry.path) + entry.size, ZIP_END_SIZE);
+  if (size >= ZIP_MAX_SIZE) {
+    throw new BadRequest("The zip archive cannot exceed 4 GB, please use the tar format instead.");
+  }
+}
+
+const dosDateTime = (date: Date): { time: number, date: number } => {
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array, crc = 0): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// returns the number of written bytes, rejects if it does not match the expected size
+const writeChunks = async (
+  handle: FileHandle,
+  position: number,
+  size: number,
+  chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  path: string,
+  onChunk?: (chunk: Uint8Array) => void
+): Promise<number> => {
+  let written = 0;
+  for await (const chunk of chunks) {
+    if (written + chunk.length > size) {
+      break;
+    }
+    await handle.write(chunk, 0, chunk.length, position + written);
+    written += chunk.length;
+    if (onChunk) {
+      onChunk(chunk);
+    }
+  }
+  if (written !== size) {
+    throw new IntegrityError(`File size mismatch for: ${path}, expected: ${size}, actual: ${written}`);
+  }
+  return written;
+}
@@ -0,0 +1,130 @@
+import { actionRefs, functions, objectType } from "../constants";
+import { Filter } from "../types/filter";
+
+export type AuditLogFormat = "csv" | "json";
+
+export type AuditLogFilters = {
+  actionRefs?: actionRefs[], // ex: [actionRefs.STACK_CREATE, actionRefs.STACK_REVOKE]
+  actors?: string[], // member addresses
+  objectTypes?: objectType[],
+  from?: Date | number, // inclusive, date or timestamp in ms
+  to?: Date | number // inclusive, date or timestamp in ms
+}
+
+export type AuditLogEntry = {
+  transactionId: string,
+  postedAt: string, // ISO 8601 date
+  function: functions,
+  actionRef: actionRefs,
+  groupRef?: string,
+  actor: {
+    address: string,
+    name?: string, // decrypted member name, or email if the member has not set the name
+  },
+  object: {
+    id: string,
+    type: objectType,
+    name?: string // decrypted object name
+  }
+}
+
+export type AuditLogGroup = {
+  id: string, // group ref, or the transaction id for standalone transactions
+  postedAt: string, // date of the first transaction in the group
+  actionRef: actionRefs, // action of the first transaction in the group
+  actor: AuditLogEntry["actor"],
+  entries: AuditLogEntry[]
+}
+
+const CSV_COLUMNS = [
+  "groupId",
+  "transactionId",
+  "postedAt",
+  "function",
+  "actionRef",
+  "actorAddress",
+  "actorName",
+  "objectId",
+  "objectType",
+  "objectName"
+];
+
+/**
+ * Translates the audit log filters to the transaction listing filter, applied by the api
+ * @param  {AuditLogFilters} filters
+ * @returns the listing filter, undefined if there are no filters
+ */
+export const toTransactionFilter = (filters: AuditLogFilters = {}): Filter | undefined => {
+  const filter = {} as Filter;
+  if (filters.actionRefs) {
+    filter.actionRef = { in: filters.actionRefs };
+  }
+  if (filters.actors) {
+    filter.address = { in: filters.actors };
+  }
+  if (filters.objectTypes) {
+    filter.objectType = { in: filters.objectTypes };
+  }
+  // the range is inclusive, the listing operators are exclusive
+  if (filters.from !== undefined || filters.to !== undefined) {
+    filter.postedAt = {};
+    if (filters.from !== undefined) {
+      filter.postedAt.gt = JSON.stringify(new Date(filters.from).getTime() - 1);
+    }
+    if (filters.to !== undefined) {
+      filter.postedAt.lt = JSON.stringify(new Date(filters.to).getTime() + 1);
+    }
+  }
+  return Object.keys(filter).length ? filter : undefined;
+}
+
+/**
+ * Groups the entries of the same user action, ex: batch upload, sharing the group ref
+ * @param  {AuditLogEntry[]} entries ordered by date
+ * @returns groups ordered by the date of the first entry
+ */
+export const groupAuditLogEntries = (entries: AuditLogEntry[]): AuditLogGroup[] => {
+  const groups = new Map<string, AuditLogGroup>();
+  for (const entry of entries) {
+    const id = entry.groupRef || entry.transactionId;
+    if (!groups.has(id)) {
+      groups.set(id, { id, postedAt: entry.postedAt, actionRef: entry.actionRef, actor: entry.actor, entries: [] });
+    }
+    groups.get(id).entries.push(entry);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * @param  {AuditLogGroup[]} groups
+ * @param  {AuditLogFormat} format
+ * @returns CSV with one row per entry, or JSON of the groups
+ */
+export const formatAuditLog = (groups: AuditLogGroup[], format: AuditLogFormat): string => {
+  if (format === "json") {
+    return JSON.stringify(groups, null, 2);
+  }
+  const rows = [].concat(...groups.map((group) => group.entries.map((entry) => [
+    group.id,
+    entry.transactionId,
+    entry.postedAt,
+    entry.function,
+    entry.actionRef,
+    entry.actor.address,
+    entry.actor.name,
+    entry.object.id,
+    entry.object.type,
+    entry.object.name
+  ])));
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(toCsvValue).join(","))
+    .join("\r\n");
+}
+
+const toCsvValue = (value: string): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  // escape as per RFC 4180
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
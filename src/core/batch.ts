@@ -12,6 +12,8 @@ import { ContractInput, Tag, Tags } from "../types/contract";
 import { ObjectType } from "../types/object";
 import { NodeService } from "./node";
 import { BadRequest } from "../errors/bad-request";
+import { PCacheBuster } from "@akord/ts-cacheable";
+import { CacheBusters } from "../types/cacheable";
 
 function* chunks<T>(arr: T[], n: number): Generator<T[], void> {
   for (let i = 0; i < arr.length; i += n) {
@@ -83,6 +85,9 @@ class BatchService extends Service {
    * @param  {{id:string,role:RoleType}[]} items
    * @returns Promise with corresponding transaction ids
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async membershipChangeRole(items: { id: string, role: RoleType }[])
     : Promise<{ transactionId: string, object: Membership }[]> {
     return this.batchUpdate<Membership>(items.map((item) => ({
@@ -150,42 +155,47 @@ class BatchService extends Service {
     for (const chunk of [...chunks(items, BatchService.BATCH_CHUNK_SIZE)]) {
       // upload file data & metadata
       Promise.all(chunk.map(async (item) => {
-        const service = new StackService(this.wallet, this.api, this);
+        try {
+          const service = new StackService(this.wallet, this.api, this);
 
-        const nodeId = uuidv4();
-        service.setObjectId(nodeId);
+          const nodeId = uuidv4();
+          service.setObjectId(nodeId);
 
-        const createOptions = {
-          ...stackCreateOptions,
-          ...(item.options || {})
-        }
-        service.setAkordTags((service.isPublic ? [item.name] : []).concat(createOptions.tags));
-        service.setParentId(createOptions.parentId);
-        service.arweaveTags = await service.getTxTags();
-
-        const fileService = new FileService(this.wallet, this.api, service);
-        const fileUploadResult = await fileService.create(item.file, createOptions);
-        const version = await fileService.newVersion(item.file, fileUploadResult);
-
-        const state = {
-          name: await service.processWriteString(item.name ? item.name : item.file.name),
-          versions: [version],
-          tags: service.tags
-        };
-        const id = await service.uploadState(state);
+          const createOptions = {
+            ...stackCreateOptions,
+            ...(item.options || {})
+          }
+          service.setAkordTags((service.isPublic ? [item.name] : []).concat(createOptions.tags));
+          service.setParentId(createOptions.parentId);
+          service.arweaveTags = await service.getTxTags();
+
+          const fileService = new FileService(this.wallet, this.api, service);
+          const fileUploadResult = await fileService.create(item.file, createOptions);
+          const version = await fileService.newVersion(item.file, fileUploadResult);
+
+          const state = {
+            name: await service.processWriteString(item.name ? item.name : item.file.name),
+            versions: [version],
+            tags: service.tags
+          };
+          const id = await service.uploadState(state);
         
-        processedStacksCount += 1;
-        if (options.processingCountHook) {
-          options.processingCountHook(processedStacksCount);
-        }
+          processedStacksCount += 1;
+          if (options.processingCountHook) {
+            options.processingCountHook(processedStacksCount);
+          }
 
-        // queue the stack transaction for posting
-        transactions.push({
-          vaultId: service.vaultId,
-          input: { function: service.function, data: id, parentId: createOptions.parentId },
-          tags: service.arweaveTags,
-          item
-        });
+          // queue the stack transaction for posting
+          transactions.push({
+            vaultId: service.vaultId,
+            input: { function: service.function, data: id, parentId: createOptions.parentId },
+            tags: service.arweaveTags,
+            item
+          });
+        } catch (error) {
+          // failed uploads are not queued, count them as processed
+          errors.push({ name: item.name, message: error.toString(), error });
+        }
       }
       ));
     }
@@ -193,9 +203,9 @@ class BatchService extends Service {
     // post queued stack transactions
     let currentTx: StackCreateTransaction;
     let stacksCreated = 0;
-    while (stacksCreated < items.length) {
+    while (stacksCreated + errors.length < items.length) {
       if (options.cancelHook?.signal.aborted) {
-        return { data, errors, cancelled: items.length - stacksCreated };
+        return { data, errors, cancelled: items.length - stacksCreated - errors.length };
       }
       if (transactions.length === 0) {
         // wait for a while if the queue is empty before checking again
@@ -217,7 +227,7 @@ class BatchService extends Service {
           data.push({ transactionId: id, object: stack, stackId: object.id });
           stacksCreated += 1;
           if (options.cancelHook?.signal.aborted) {
-            return { data, errors, cancelled: items.length - stacksCreated };
+            return { data, errors, cancelled: items.length - stacksCreated - errors.length };
           }
         } catch (error) {
 
@@ -226,7 +236,7 @@ class BatchService extends Service {
       }
     }
     if (options.cancelHook?.signal.aborted) {
-      return { data, errors, cancelled: items.length - stacksCreated };
+      return { data, errors, cancelled: items.length - stacksCreated - errors.length };
     }
     return { data, errors, cancelled: 0 };
   }
@@ -237,6 +247,9 @@ class BatchService extends Service {
    * @param  {MembershipCreateOptions} [options] invitation email message, etc.
    * @returns Promise with new membership ids & their corresponding transaction ids
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async membershipInvite(vaultId: string, items: MembershipInviteItem[], options: MembershipCreateOptions = {})
     : Promise<BatchMembershipInviteResponse> {
     const members = await this.api.getMembers(vaultId);
@@ -1,4 +1,5 @@
 import { ListOptions } from "../types/query-options";
+import { Paginated } from "../types/paginated";
 import lodash from "lodash";
 import { EncryptionMetadata } from "./service";
 import { EncryptedPayload } from "@akord/crypto/lib/types";
@@ -30,6 +31,55 @@ export const paginate = async <T>(apiCall: any, listOptions: ListOptions & { vau
   return results;
 }
 
+/**
+ * Async iterable over the list pages, pages are fetched & decrypted lazily
+ * The next page is prefetched while the current one is consumed
+ * Items that failed to process, ex: decryption errors, are collected in errors instead of aborting the iteration
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  errors = [] as Array<{ id: string, error: Error }>;
+
+  private apiCall: (listOptions: ListOptions) => Promise<Paginated<T>>;
+  private listOptions: ListOptions;
+
+  constructor(apiCall: (listOptions: ListOptions) => Promise<Paginated<T>>, listOptions: ListOptions = {}) {
+    this.apiCall = apiCall;
+    this.listOptions = listOptions;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    let page = this.fetch(this.listOptions);
+    while (page) {
+      const { items, nextToken, errors } = await page;
+      page = nextToken && nextToken !== "null"
+        ? this.fetch({ ...this.listOptions, nextToken })
+        : undefined;
+      this.errors.push(...(errors || []));
+      for (const item of items) {
+        yield item;
+      }
+    }
+  }
+
+  private fetch(listOptions: ListOptions): Promise<Paginated<T>> {
+    const page = this.apiCall(listOptions);
+    // the prefetched page may be left unconsumed if the iteration stops early
+    page.catch(() => { });
+    return page;
+  }
+}
+
+/**
+ * @param  {string[]} tags ex: ["Quarterly report.pdf"]
+ * @returns lower case tag values as stored in Akord-Tag, split on spaces, dots & commas, ex: ["quarterly", "report", "pdf"]
+ */
+export const normalizeAkordTags = (tags: string[]): string[] => {
+  return [].concat(...tags
+    .filter((tag) => tag)
+    .map((tag) => tag.split(" ").join(",").split(".").join(",").split(",")
+      .map((value) => value.toLowerCase())));
+}
+
 export const mergeState = (currentState: any, stateUpdates: any): any => {
   let newState = lodash.cloneDeepWith(currentState);
   lodash.mergeWith(
@@ -57,3 +107,18 @@ export const getEncryptedPayload = (data: ArrayBuffer | string, metadata: Encryp
   }
   return null;
 }
+
+/**
+ * Verifies the Ed25519 signature of the digest, as created by signHash & signString of @akord/crypto
+ * @param  {string} hash base64 encoded SHA-256 digest
+ * @param  {string} signature base64 encoded signature
+ * @param  {string} publicSigningKey base64 encoded public signing key of the signer
+ * @returns Promise with true if the signature is valid
+ */
+export const verifySignature = async (hash: string, signature: string, publicSigningKey: string): Promise<boolean> => {
+  const subtle = typeof window === "undefined"
+    ? ((await import("crypto")).webcrypto as unknown as Crypto).subtle
+    : window.crypto.subtle;
+  const key = await subtle.importKey("raw", base64ToArray(publicSigningKey), { name: "Ed25519" }, false, ["verify"]);
+  return await subtle.verify({ name: "Ed25519" }, key, base64ToArray(signature), base64ToArray(hash));
+}
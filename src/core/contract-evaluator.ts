@@ -0,0 +1,397 @@
+import lodash from "lodash";
+import { functions, objectType, protocolTags, role, smartweaveTags, status } from "../constants";
+import { ContractInput, ContractState, MembershipInput, Tags } from "../types/contract";
+import { TransactionMetadata } from "../arweave";
+import { BadRequest } from "../errors/bad-request";
+import { Forbidden } from "../errors/forbidden";
+import { NotFound } from "../errors/not-found";
+
+export type ContractInteraction = {
+  id: string,
+  input: ContractInput,
+  tags: Tags,
+  caller: string, // address of the member who signed the interaction
+  timestamp: string
+}
+
+export type VaultContract = {
+  state: any,
+  memberships: Array<any>,
+  nodes: Array<any>
+}
+
+export type ContractEvaluation = {
+  state: ContractState,
+  errors: Array<{ id: string, error: Error }> // rejected interactions, skipped by the evaluation
+}
+
+export type ContractStateDiff = {
+  path: string, // ex: memberships.{membershipId}.role
+  local: any,
+  remote: any
+}
+
+// fields compared between the evaluated & the server state, timestamps are set by the server
+const VAULT_FIELDS = ["id", "owner", "status", "data"];
+const MEMBERSHIP_FIELDS = ["address", "role", "status", "data"];
+const NODE_FIELDS = ["type", "owner", "status", "parentId", "data"];
+
+const OWNER_ONLY_FUNCTIONS = [
+  functions.VAULT_UPDATE,
+  functions.VAULT_ARCHIVE,
+  functions.VAULT_RESTORE,
+  functions.MEMBERSHIP_INVITE,
+  functions.MEMBERSHIP_ADD,
+  functions.MEMBERSHIP_REVOKE,
+  functions.MEMBERSHIP_CHANGE_ROLE
+];
+
+// functions the members call on their own membership only
+const OWN_MEMBERSHIP_FUNCTIONS = [
+  functions.MEMBERSHIP_ACCEPT,
+  functions.MEMBERSHIP_REJECT,
+  functions.MEMBERSHIP_UPDATE
+];
+
+/**
+ * Vault contract evaluator, applies the protocol functions with the role checks
+ * Used by the in-memory api & to rebuild the contract state client-side
+ */
+export class ContractEvaluator {
+  private loadState: (stateId: string) => Promise<any>;
+
+  /**
+   * @param  {(stateId:string)=>Promise<any>} loadState loads the state data referenced by the interactions
+   */
+  constructor(loadState: (stateId: string) => Promise<any>) {
+    this.loadState = loadState;
+  }
+
+  /**
+   * Rebuilds the contract state from the ordered interactions, rejected interactions are skipped
+   * @param  {ContractInteraction[]} interactions starting with vault:init
+   * @returns Promise with the contract state & the rejected interactions
+   */
+  public async evaluate(interactions: ContractInteraction[]): Promise<ContractEvaluation> {
+    let contract: VaultContract;
+    const errors = [] as Array<{ id: string, error: Error }>;
+    for (const interaction of interactions) {
+      try {
+        if (!contract) {
+          contract = await this.init(interaction);
+        } else {
+          await this.apply(contract, interaction);
+        }
+      } catch (error) {
+        errors.push({ id: interaction.id, error: error });
+      }
+    }
+    if (!contract) {
+      throw new BadRequest("Missing vault:init interaction.");
+    }
+    return { state: toContractState(contract), errors };
+  }
+
+  /**
+   * @param  {ContractInteraction} interaction vault:init interaction
+   * @param  {string} [vaultId] default to the Vault-Id tag of the interaction
+   * @returns Promise with the new vault contract
+   */
+  public async init(interaction: ContractInteraction, vaultId = getTagValue(interaction.tags, protocolTags.VAULT_ID)): Promise<VaultContract> {
+    const { input, tags, caller, timestamp } = interaction;
+    if (input.function !== functions.VAULT_CREATE) {
+      throw new BadRequest("Contract should be initialized with vault:init, got: " + input.function);
+    }
+    const data = input.data as { vault: string, membership: string };
+    const vault = {
+      ...await this.loadState(data.vault),
+      id: vaultId,
+      owner: caller,
+      status: status.ACTIVE,
+      public: getTagValue(tags, protocolTags.PUBLIC) === "true",
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      data: [data.vault]
+    };
+    const membership = {
+      ...await this.loadState(data.membership),
+      id: getTagValue(tags, protocolTags.MEMBERSHIP_ID),
+      owner: caller,
+      address: getTagValue(tags, protocolTags.MEMBER_ADDRESS),
+      role: role.OWNER,
+      status: status.ACCEPTED,
+      vaultId: vaultId,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      data: [data.membership]
+    };
+    return { state: vault, memberships: [membership], nodes: [] };
+  }
+
+  /**
+   * Validates & applies the interaction to the contract, rejected interactions leave the contract unchanged
+   * @param  {VaultContract} contract
+   * @param  {ContractInteraction} interaction
+   * @returns Promise with the changed object: vault, membership or node
+   */
+  public async apply(contract: VaultContract, interaction: ContractInteraction): Promise<any> {
+    // the changed objects are copied into the draft, committed once the interaction is applied
+    const draft = {
+      state: { ...contract.state },
+      memberships: contract.memberships.slice(),
+      nodes: contract.nodes.slice()
+    };
+    const object = await this.applyToDraft(draft, interaction);
+    contract.state = draft.state;
+    contract.memberships = draft.memberships;
+    contract.nodes = draft.nodes;
+    return object;
+  }
+
+  private async applyToDraft(contract: VaultContract, interaction: ContractInteraction): Promise<any> {
+    const { input, tags, timestamp } = interaction;
+    this.validate(contract, interaction);
+    switch (input.function) {
+      case functions.VAULT_UPDATE:
+        return await this.update(contract.state, input.data as string, timestamp);
+      case functions.VAULT_ARCHIVE:
+        return await this.update(contract.state, null, timestamp, status.ARCHIVED);
+      case functions.VAULT_RESTORE:
+        return await this.update(contract.state, null, timestamp, status.ACTIVE);
+      case functions.MEMBERSHIP_INVITE: {
+        const membershipId = getTagValue(tags, protocolTags.MEMBERSHIP_ID);
+        const existing = contract.memberships.some((membership) => membership.id === membershipId)
+          && findMembership(contract, membershipId);
+        if (existing) {
+          // confirm invitation of the user without an Akord account
+          existing.address = input.address;
+          return await this.update(existing, input.data as string, timestamp, status.PENDING);
+        }
+        const membership = await this.newMembership(contract, membershipId, input.address, input.role, input.data as string, status.PENDING, interaction);
+        contract.memberships.push(membership);
+        return membership;
+      }
+      case functions.MEMBERSHIP_ADD: {
+        const members = [];
+        for (const member of input.members as MembershipInput[]) {
+          members.push(await this.newMembership(contract, member.id, member.address, member.role, member.data, status.ACCEPTED, interaction));
+        }
+        contract.memberships.push(...members);
+        return members[members.length - 1];
+      }
+      case functions.MEMBERSHIP_ACCEPT:
+        return await this.update(getTxMembership(contract, tags), input.data as string, timestamp, status.ACCEPTED);
+      case functions.MEMBERSHIP_REJECT:
+        return await this.update(getTxMembership(contract, tags), null, timestamp, status.REJECTED);
+      case functions.MEMBERSHIP_UPDATE:
+        return await this.update(getTxMembership(contract, tags), input.data as string, timestamp);
+      case functions.MEMBERSHIP_CHANGE_ROLE: {
+        const membership = getTxMembership(contract, tags);
+        membership.role = input.role;
+        return await this.update(membership, null, timestamp);
+      }
+      case functions.MEMBERSHIP_REVOKE: {
+        // rotated keys for remaining members
+        for (const memberData of (input.data || []) as { id: string, value: string }[]) {
+          await this.update(findMembership(contract, memberData.id), memberData.value, timestamp);
+        }
+        return await this.update(getTxMembership(contract, tags), null, timestamp, status.REVOKED);
+      }
+      case functions.NODE_CREATE: {
+        const node = {
+          ...await this.loadState(input.data as string),
+          id: getTagValue(tags, protocolTags.NODE_ID),
+          type: getTagValue(tags, protocolTags.NODE_TYPE),
+          owner: interaction.caller,
+          status: status.ACTIVE,
+          vaultId: contract.state.id,
+          parentId: input.parentId,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          data: [input.data]
+        };
+        contract.nodes.push(node);
+        return node;
+      }
+      case functions.NODE_UPDATE:
+        return await this.update(getTxNode(contract, tags), input.data as string, timestamp);
+      case functions.NODE_MOVE: {
+        const node = getTxNode(contract, tags);
+        node.parentId = input.parentId;
+        return await this.update(node, null, timestamp);
+      }
+      case functions.NODE_REVOKE:
+        return await this.update(getTxNode(contract, tags), null, timestamp, status.REVOKED);
+      case functions.NODE_RESTORE:
+        return await this.update(getTxNode(contract, tags), null, timestamp, status.ACTIVE);
+      case functions.NODE_DELETE:
+        return await this.update(getTxNode(contract, tags), null, timestamp, status.DELETED);
+      default:
+        throw new BadRequest("Function is not supported: " + input.function);
+    }
+  }
+
+  private validate(contract: VaultContract, interaction: ContractInteraction) {
+    const { input, tags, caller } = interaction;
+    if (input.function === functions.VAULT_CREATE) {
+      throw new BadRequest("Vault is already initialized: " + contract.state.id);
+    }
+    if (contract.state.status !== status.ACTIVE && input.function !== functions.VAULT_RESTORE) {
+      throw new BadRequest("Vault is not active: " + contract.state.id);
+    }
+    const membership = contract.memberships.find((membership) => membership.address === caller);
+    const isPendingMember = membership?.status === status.PENDING
+      && (input.function === functions.MEMBERSHIP_ACCEPT || input.function === functions.MEMBERSHIP_REJECT);
+    if (!membership || (membership.status !== status.ACCEPTED && !isPendingMember)) {
+      throw new Forbidden("Address: " + caller + " is not a member of the vault: " + contract.state.id);
+    }
+    if (OWNER_ONLY_FUNCTIONS.includes(input.function) && membership.role !== role.OWNER) {
+      throw new Forbidden("Only the vault owner can call: " + input.function);
+    }
+    if (OWN_MEMBERSHIP_FUNCTIONS.includes(input.function) && getTxMembership(contract, tags).address !== caller) {
+      throw new Forbidden("Address: " + caller + " cannot call: " + input.function + " on the membership of another member");
+    }
+    if (input.function.startsWith("node:") && membership.role === role.VIEWER) {
+      throw new Forbidden("Viewer cannot call: " + input.function);
+    }
+  }
+
+  private async newMembership(contract: VaultContract, id: string, address: string, memberRole: string, data: string, memberStatus: status, interaction: ContractInteraction): Promise<any> {
+    return {
+      ...await this.loadState(data),
+      id: id,
+      owner: interaction.caller,
+      address: address,
+      role: memberRole,
+      status: memberStatus,
+      vaultId: contract.state.id,
+      createdAt: interaction.timestamp,
+      updatedAt: interaction.timestamp,
+      data: [data]
+    };
+  }
+
+  private async update(object: any, data: string, timestamp: string, objectStatus?: status): Promise<any> {
+    if (data) {
+      Object.assign(object, await this.loadState(data));
+      object.data = (object.data || []).concat(data);
+    }
+    if (objectStatus) {
+      object.status = objectStatus;
+    }
+    object.updatedAt = timestamp;
+    return object;
+  }
+}
+
+/**
+ * @param  {VaultContract} contract
+ * @returns contract state with the nodes grouped by type
+ */
+export const toContractState = (contract: VaultContract): ContractState => {
+  return lodash.cloneDeep({
+    ...contract.state,
+    memberships: contract.memberships,
+    nodes: contract.nodes,
+    folders: contract.nodes.filter((node) => node.type === objectType.FOLDER),
+    stacks: contract.nodes.filter((node) => node.type === objectType.STACK),
+    memos: contract.nodes.filter((node) => node.type === objectType.MEMO)
+  });
+}
+
+/**
+ * Compares the evaluated contract state with the server one, timestamps are not compared
+ * @param  {ContractState} local evaluated state
+ * @param  {ContractState} remote server state
+ * @returns list of differences, empty if the states match
+ */
+export const diffContractState = (local: ContractState, remote: ContractState): ContractStateDiff[] => {
+  const diff = [] as ContractStateDiff[];
+  diffFields("vault", local, remote, VAULT_FIELDS, diff);
+  diffCollections("memberships", local?.memberships, remote?.memberships, MEMBERSHIP_FIELDS, diff);
+  diffCollections("nodes", local?.nodes, remote?.nodes, NODE_FIELDS, diff);
+  return diff;
+}
+
+/**
+ * Orders the Arweave interaction transactions by the block height, the transactions within the same block
+ * by the Timestamp tag & the transaction id, pending transactions come last
+ * @param  {TransactionMetadata[]} transactions
+ * @returns ordered transactions
+ */
+export const sortInteractionTransactions = (transactions: TransactionMetadata[]): TransactionMetadata[] => {
+  const height = (transaction: TransactionMetadata) => transaction.block?.height ?? Number.MAX_SAFE_INTEGER;
+  const timestamp = (transaction: TransactionMetadata) => parseInt(getTagValue(transaction.tags, protocolTags.TIMESTAMP)) || 0;
+  return transactions.slice().sort((a, b) => height(a) - height(b)
+    || timestamp(a) - timestamp(b)
+    || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Maps the Arweave interaction transaction, tagged with the SmartWeave input & the protocol tags
+ * @param  {TransactionMetadata} transaction
+ * @returns contract interaction
+ */
+export const toContractInteraction = (transaction: TransactionMetadata): ContractInteraction => {
+  const input = getTagValue(transaction.tags, smartweaveTags.INPUT);
+  if (!input) {
+    throw new BadRequest("Missing contract input for transaction: " + transaction.id);
+  }
+  return {
+    id: transaction.id,
+    input: JSON.parse(input),
+    tags: transaction.tags,
+    caller: getTagValue(transaction.tags, protocolTags.SIGNER_ADDRESS),
+    timestamp: getTagValue(transaction.tags, protocolTags.TIMESTAMP)
+  };
+}
+
+const diffFields = (path: string, local: any, remote: any, fields: string[], diff: ContractStateDiff[]) => {
+  for (const field of fields) {
+    if (!lodash.isEqual(local?.[field], remote?.[field])) {
+      diff.push({ path: `${path}.${field}`, local: local?.[field], remote: remote?.[field] });
+    }
+  }
+}
+
+const diffCollections = (path: string, local: any[] = [], remote: any[] = [], fields: string[], diff: ContractStateDiff[]) => {
+  const ids = lodash.union(local.map((item) => item.id), remote.map((item) => item.id));
+  for (const id of ids) {
+    const localItem = local.find((item) => item.id === id);
+    const remoteItem = remote.find((item) => item.id === id);
+    if (!localItem || !remoteItem) {
+      diff.push({ path: `${path}.${id}`, local: localItem, remote: remoteItem });
+    } else {
+      diffFields(`${path}.${id}`, localItem, remoteItem, fields, diff);
+    }
+  }
+}
+
+// returns a copy of the node, replacing it within the draft contract
+const getTxNode = (contract: VaultContract, tags: Tags): any => {
+  const nodeId = getTagValue(tags, protocolTags.NODE_ID);
+  const index = contract.nodes.findIndex((node) => node.id === nodeId);
+  if (index < 0) {
+    throw new NotFound("Could not find node with id: " + nodeId);
+  }
+  contract.nodes[index] = { ...contract.nodes[index] };
+  return contract.nodes[index];
+}
+
+const getTxMembership = (contract: VaultContract, tags: Tags): any => {
+  return findMembership(contract, getTagValue(tags, protocolTags.MEMBERSHIP_ID));
+}
+
+// returns a copy of the membership, replacing it within the draft contract
+const findMembership = (contract: VaultContract, membershipId: string): any => {
+  const index = contract.memberships.findIndex((membership) => membership.id === membershipId);
+  if (index < 0) {
+    throw new NotFound("Could not find membership with id: " + membershipId);
+  }
+  contract.memberships[index] = { ...contract.memberships[index] };
+  return contract.memberships[index];
+}
+
+const getTagValue = (tags: Tags, name: string): string => {
+  return tags?.find((tag) => tag.name === name)?.value;
+}
@@ -1,7 +1,26 @@
 import { Service } from "../core";
-import { IncorrectEncryptionKey } from "../errors/incorrect-encryption-key";
 import { ContractState, Tags } from "../types/contract";
 import { Transaction } from "../types/transaction";
+import { objectType } from "../constants";
+import { Membership } from "../types/membership";
+import { NodeLike, NodeType } from "../types/node";
+import { ListOptions } from "../types/query-options";
+import { Paginated } from "../types/paginated";
+import { paginate } from "./common";
+import { MembershipService } from "./membership";
+import { NodeService } from "./node";
+import { VaultService } from "./vault";
+import { AuditLogEntry, AuditLogFilters, AuditLogFormat, AuditLogGroup, formatAuditLog, groupAuditLogEntries, toTransactionFilter } from "./audit-log";
+import { ContractEvaluation, ContractEvaluator, ContractInteraction, ContractStateDiff, diffContractState } from "./contract-evaluator";
+
+export type ContractEvaluateOptions = {
+  interactions?: ContractInteraction[] // ordered interactions, ex: fetched from Arweave
+}
+
+export type ContractVerification = ContractEvaluation & {
+  isValid: boolean,
+  diff: ContractStateDiff[]
+}
 
 class ContractService extends Service {
 
@@ -17,7 +36,7 @@ class ContractService extends Service {
       try {
         await contract.decrypt();
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error, id);
       }
     }
     return contract;
@@ -25,10 +44,89 @@ class ContractService extends Service {
 
   /**
    * @param  id vault contract id
-   * @returns Promise with the list of all contract interactions
+   * @param  {ListOptions} [options] ex: filter: { function: { eq: "node:create" } }
+   * @returns Promise with paginated contract interactions
    */
-  public async list(id: string): Promise<Array<Transaction>> {
-    return this.api.getTransactions(id);
+  public async list(id: string, options: ListOptions = {}): Promise<Paginated<Transaction>> {
+    return await this.api.getTransactions(id, options);
+  }
+
+  /**
+   * @param  id vault contract id
+   * @param  {ListOptions} [options] ex: filter: { function: { eq: "node:create" } }
+   * @returns Promise with all contract interactions
+   */
+  public async listAll(id: string, options: ListOptions = {}): Promise<Array<Transaction>> {
+    const list = async (options: ListOptions & { vaultId: string }) => {
+      return await this.list(options.vaultId, options);
+    }
+    return await paginate<Transaction>(list, { ...options, vaultId: id });
+  }
+
+  /**
+   * Rebuilds the contract state locally, applying the protocol functions with the role checks
+   * @param  id vault contract id
+   * @param  {ContractEvaluateOptions} [options] default to the interactions provided by the api
+   * @returns Promise with the evaluated contract state & the rejected interactions
+   */
+  public async evaluate(id: string, options: ContractEvaluateOptions = {}): Promise<ContractEvaluation> {
+    const interactions = options.interactions || await this.api.getContractInteractions(id);
+    const evaluator = new ContractEvaluator(async (stateId: string) => this.api.getNodeState(stateId));
+    return await evaluator.evaluate(interactions);
+  }
+
+  /**
+   * Evaluates the contract locally & compares the result with the server state
+   * @param  id vault contract id
+   * @param  {ContractEvaluateOptions} [options]
+   * @returns Promise with the verification result, valid if the states match
+   */
+  public async verify(id: string, options: ContractEvaluateOptions = {}): Promise<ContractVerification> {
+    const { state, errors } = await this.evaluate(id, options);
+    const diff = diffContractState(state, await this.api.getContractState(id));
+    return { isValid: diff.length === 0, diff, errors, state };
+  }
+
+  /**
+   * Human-readable audit log, with the actors & objects resolved to the decrypted member & object names
+   * @param  id vault contract id
+   * @param  {AuditLogFilters} [filters] by action, actor, object type & date range
+   * @returns Promise with the log entries grouped by the user action (group ref), ordered by date
+   */
+  public async auditLog(id: string, filters: AuditLogFilters = {}): Promise<Array<AuditLogGroup>> {
+    const transactions = (await this.listAll(id, { filter: toTransactionFilter(filters) }))
+      .sort((a, b) => parseInt(a.postedAt) - parseInt(b.postedAt));
+    const { members, names } = await this.getAuditLogContext(id);
+    const entries = transactions.map((transaction) => {
+      const member = members.get(transaction.address);
+      return {
+        transactionId: transaction.id,
+        postedAt: new Date(parseInt(transaction.postedAt)).toISOString(),
+        function: transaction.function,
+        actionRef: transaction.actionRef,
+        groupRef: transaction.groupRef,
+        actor: {
+          address: transaction.address,
+          name: member?.memberDetails?.name || member?.email
+        },
+        object: {
+          id: transaction.objectId,
+          type: transaction.objectType,
+          name: names.get(transaction.objectId)
+        }
+      } as AuditLogEntry;
+    });
+    return groupAuditLogEntries(entries);
+  }
+
+  /**
+   * @param  id vault contract id
+   * @param  {AuditLogFormat} format csv or json
+   * @param  {AuditLogFilters} [filters] by action, actor, object type & date range
+   * @returns Promise with the exported audit log, CSV with one row per entry
+   */
+  public async exportAuditLog(id: string, format: AuditLogFormat, filters: AuditLogFilters = {}): Promise<string> {
+    return formatAuditLog(await this.auditLog(id, filters), format);
   }
 
   /**
@@ -39,6 +137,26 @@ class ContractService extends Service {
   public async create(tags: Tags, state?: any): Promise<string> {
     return await this.api.initContractId(tags, state)
   }
+
+  private async getAuditLogContext(vaultId: string): Promise<{ members: Map<string, Membership>, names: Map<string, string> }> {
+    // include revoked objects & former members, these still appear in the history
+    const listOptions = { shouldDecrypt: true, filter: undefined } as ListOptions;
+    const memberships = await new MembershipService(this.wallet, this.api).listAll(vaultId, listOptions);
+    const members = new Map(memberships
+      .filter((membership) => membership.address)
+      .map((membership) => [membership.address, membership] as [string, Membership]));
+    const names = new Map<string, string>();
+    const vault = await new VaultService(this.wallet, this.api).get(vaultId);
+    names.set(vault.id, vault.name);
+    memberships.forEach((membership) => names.set(membership.id, membership.memberDetails?.name || membership.email));
+    for (const type of [objectType.FOLDER, objectType.STACK, objectType.MEMO]) {
+      const service = new NodeService<NodeLike>(this.wallet, this.api);
+      service.objectType = type as NodeType;
+      const nodes = await service.listAll(vaultId, listOptions);
+      nodes.forEach((node: any) => names.set(node.id, node.name));
+    }
+    return { members, names };
+  }
 }
 
 export {
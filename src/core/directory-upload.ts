@@ -0,0 +1,162 @@
+import { BadRequest } from "../errors/bad-request";
+import { Hooks } from "./file";
+
+export type DirectoryUploadOptions = Hooks & {
+  parentId?: string, // the directory contents are uploaded into given folder, default to the vault root
+  ignore?: string[], // glob patterns of the paths to skip, ex: ["node_modules", "**/*.tmp", "build/**"]
+  concurrency?: number, // the limit of the number of files uploaded in parallel, applies to the folder creation & the content checks too (default to 5)
+  skipExisting?: boolean // resume the upload: reuse the existing folders with the same name & skip the files already present within the target folder with the same name & content hash, the changed files are uploaded as new revisions
+}
+
+export type DirectoryUploadFileStatus = "created" | "updated" | "skipped" | "failed" | "cancelled";
+
+export type DirectoryUploadFileResult = {
+  path: string, // relative path with "/" separators
+  status: DirectoryUploadFileStatus,
+  stackId?: string, // new stack id, or the existing stack id for the updated & skipped files
+  error?: Error
+}
+
+export type DirectoryUploadResult = {
+  folders: { [path: string]: string }, // relative directory path => folder id, existing folders are reused when skipping the existing files
+  files: Array<DirectoryUploadFileResult>
+}
+
+export type LocalDirectoryEntry = {
+  path: string, // relative path with "/" separators
+  name: string,
+  parent: string, // relative path of the parent directory, empty for the top level entries
+  size?: number
+}
+
+/**
+ * Walks the local directory depth-first, parent directories precede their contents (Node.js only)
+ * @param  {string} root local directory path
+ * @param  {string[]} ignore glob patterns of the paths to skip, ignored directories are not walked
+ * @returns Promise with the directories & files, symbolic links are skipped
+ */
+export const walkDirectory = async (root: string, ignore: string[] = [])
+  : Promise<{ directories: LocalDirectoryEntry[], files: LocalDirectoryEntry[] }> => {
+  if (typeof window !== "undefined") {
+    throw new BadRequest("Uploading directories is supported in Node.js only.");
+  }
+  const fs = (await import("fs")).default;
+  const stats = await fs.promises.stat(root).catch(() => undefined);
+  if (!stats?.isDirectory()) {
+    throw new BadRequest("Could not find a directory in your filesystem: " + root);
+  }
+  const directories = [] as LocalDirectoryEntry[];
+  const files = [] as LocalDirectoryEntry[];
+  const walk = async (parent: string) => {
+    const entries = await fs.promises.readdir(resolve(root, parent), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const path = parent ? parent + "/" + entry.name : entry.name;
+      // ex: "build/**" skips the build directory itself
+      const isIgnored = (pattern: string) => matchesGlob(path, pattern) || entry.isDirectory() && matchesGlob(path + "/", pattern);
+      if (ignore.some(isIgnored)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        directories.push({ path, name: entry.name, parent });
+        await walk(path);
+      } else if (entry.isFile()) {
+        const { size } = await fs.promises.stat(resolve(root, path));
+        files.push({ path, name: entry.name, parent, size });
+      }
+    }
+  };
+  await walk("");
+  return { directories, files };
+}
+
+/**
+ * Patterns without a slash match the name at any depth, like in .gitignore
+ * @param  {string} path relative path with "/" separators
+ * @param  {string} pattern glob pattern: * matches within a path segment, ** across segments, ? a single character
+ * @returns true if the path matches the pattern
+ */
+export const matchesGlob = (path: string, pattern: string): boolean => {
+  const normalized = pattern.replace(/^\.?\//, "").replace(/\/$/, "");
+  const target = normalized.includes("/") ? path : path.substring(path.lastIndexOf("/") + 1);
+  return globToRegExp(normalized).test(target);
+}
+
+/**
+ * @param  {string} root local directory path
+ * @param  {string} path relative path with "/" separators
+ * @returns local path of the entry
+ */
+export const resolve = (root: string, path: string): string => {
+  return path ? root.replace(/[\/\\]+$/, "") + "/" + path : root;
+}
+
+/**
+ * @param  {string} path local file path
+ * @returns Promise with the hex encoded SHA-256 digest, the file is read as a stream
+ */
+export const digestLocalFile = async (path: string): Promise<string> => {
+  const fs = (await import("fs")).default;
+  return await digestChunks(fs.createReadStream(path));
+}
+
+/**
+ * @param  {AsyncIterable<Uint8Array>} chunks
+ * @returns Promise with the hex encoded SHA-256 digest
+ */
+export const digestChunks = async (chunks: AsyncIterable<Uint8Array>): Promise<string> => {
+  const hash = (await import("crypto")).createHash("sha256");
+  for await (const chunk of chunks) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Runs the batches in parallel, keeping the number of entries in flight within the limit
+ * @param  {LocalDirectoryEntry[][]} batches each batch within the limit
+ * @param  {number} limit max number of files in flight
+ * @param  {(batch:LocalDirectoryEntry[])=>Promise<void>} upload
+ */
+export const runBatches = async (
+  batches: LocalDirectoryEntry[][],
+  limit: number,
+  upload: (batch: LocalDirectoryEntry[]) => Promise<void>
+): Promise<void> => {
+  let inFlight = 0;
+  let waiting = [] as Array<() => void>;
+  await Promise.all(batches.map(async (batch) => {
+    while (inFlight > 0 && inFlight + batch.length > limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    inFlight += batch.length;
+    try {
+      await upload(batch);
+    } finally {
+      inFlight -= batch.length;
+      // wake up the waiting batches to recheck the limit
+      const waiters = waiting;
+      waiting = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }));
+}
+
+const globToRegExp = (pattern: string): RegExp => {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const isSegment = pattern[i + 2] === "/";
+      source += isSegment ? "(?:.*/)?" : ".*";
+      i += isSegment ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp("^" + source + "$");
+}
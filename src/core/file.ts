@@ -2,7 +2,7 @@ import * as mime from "mime-types";
 import { v4 as uuid } from "uuid";
 import { Readable } from "stream";
 import { base64ToArray, digestRaw, signHash } from "@akord/crypto";
-import { Service } from "./service";
+import { EncryptionMetadata, Service } from "./service";
 import { protocolTags, encryptionTags as encTags, fileTags, dataTags, smartweaveTags } from "../constants";
 import { Logger } from "../logger";
 import { ApiClient } from "../api/api-client";
@@ -10,10 +10,13 @@ import { FileLike, FileSource } from "../types/file";
 import { Tag, Tags } from "../types/contract";
 import { getTxData, getTxMetadata } from "../arweave";
 import { CONTENT_TYPE as MANIFEST_CONTENT_TYPE, FILE_TYPE as MANIFEST_FILE_TYPE } from "./manifest";
-import { FileVersion } from "../types/node";
+import { FileVersion, StorageType } from "../types/node";
 import { UDL } from "../types/udl";
 import { udlToTags } from "./udl";
+import { verifySignature } from "./common";
 import { BadRequest } from "../errors/bad-request";
+import { IntegrityError } from "../errors/integrity-error";
+import { TransportError } from "../api/transport";
 
 const DEFAULT_FILE_TYPE = "text/plain";
 
@@ -46,7 +49,10 @@ class FileService extends Service {
         currentChunk++;
       }
     } else {
-      const { fileData, metadata } = await this.api.downloadFile(id, downloadOptions);
+      const { fileData, metadata, tags } = await this.api.downloadFile(id, downloadOptions);
+      if (options.verify) {
+        await service.verify(fileData, tags);
+      }
       fileBinary = await service.processReadRaw(fileData, metadata)
     }
     return fileBinary;
@@ -95,6 +101,30 @@ class FileService extends Service {
     }
   }
 
+  /**
+   * Yields the decrypted file chunk by chunk, keeping memory consumed (RAM) under defined level: this#chunkSize.
+   * @param  {string} id file resource url
+   * @param  {string} vaultId
+   * @param  {DownloadOptions} [options] the cancel hook is checked between the chunks
+   * @returns async iterable over decrypted file chunks
+   */
+  public async *chunks(id: string, vaultId: string, options: DownloadOptions = {}): AsyncGenerator<Uint8Array> {
+    const service = new FileService(this.wallet, this.api);
+    await service.setVaultContext(vaultId);
+    const downloadOptions = { ...options } as FileDownloadOptions;
+    if (options.isChunked) {
+      for (let currentChunk = 0; currentChunk < options.numberOfChunks; currentChunk++) {
+        if (options.cancelHook?.signal.aborted) {
+          throw new TransportError("The download was cancelled.", undefined, "ERR_CANCELED");
+        }
+        downloadOptions.loadedSize = currentChunk * service.chunkSize;
+        yield new Uint8Array(await service.getBinary(`${id}_${currentChunk}`, downloadOptions));
+      }
+    } else {
+      yield new Uint8Array(await service.getBinary(id, downloadOptions));
+    }
+  }
+
   public async create(
     file: FileLike,
     options: FileUploadOptions
@@ -104,28 +134,20 @@ class FileService extends Service {
       return await this.uploadChunked(file, tags, options);
     } else {
       const { processedData, encryptionTags } = await this.processWriteRaw(await file.arrayBuffer());
-      const resourceHash = await digestRaw(new Uint8Array(processedData));
-      const privateKeyRaw = this.wallet.signingPrivateKeyRaw();
-      const signature = await signHash(
-        base64ToArray(resourceHash),
-        privateKeyRaw
-      );
-      tags.push(new Tag(fileTags.FILE_HASH, resourceHash));
-      tags.push(new Tag(protocolTags.SIGNATURE, signature));
-      tags.push(new Tag(protocolTags.SIGNER_ADDRESS, await this.wallet.getAddress()));
+      const { resourceHash, signatureTags } = await this.sign(processedData);
       options.public = this.isPublic;
       return {
         resourceHash: resourceHash,
         udl: options.udl,
-        ...await this.api.uploadFile(processedData, tags.concat(encryptionTags), options)
+        ...await this.api.uploadFile(processedData, tags.concat(signatureTags).concat(encryptionTags), options)
       };
     }
   }
 
   public async import(fileTxId: string)
     : Promise<{ file: FileLike, resourceHash: string, resourceUrl: string }> {
-    const fileData = await getTxData(fileTxId);
-    const fileMetadata = await getTxMetadata(fileTxId);
+    const fileData = await getTxData(fileTxId, this.api.config);
+    const fileMetadata = await getTxMetadata(fileTxId, this.api.config);
     const { name, type } = this.retrieveFileMetadata(fileTxId, fileMetadata?.tags);
     const file = await createFileLike([fileData], { name, mimeType: type, lastModified: fileMetadata?.block?.timestamp });
     const tags = this.getFileTags(file);
@@ -165,6 +187,46 @@ class FileService extends Service {
     }
   }
 
+  /**
+   * Verifies the file data against its hash & the signature of the uploader
+   * @param  {ArrayBuffer} fileData file data as stored (encrypted for private vaults)
+   * @param  {Tags} [tags] file upload tags, fetched from Arweave if missing
+   * @param  {FileVersion} [version] expected file version: hash & owner
+   * @param  {boolean} [isChunked] the file data is a chunk, default to true for chunked versions
+   * @returns Promise with void, rejects with IntegrityError on mismatch
+   */
+  public async verify(fileData: ArrayBuffer, tags: Tags = [], version?: FileVersion, isChunked = !!version?.numberOfChunks): Promise<void> {
+    const context = { vaultId: this.vaultId, objectId: this.objectId };
+    // the hash uri of the chunked version is the resource id, each chunk carries its own hash & signature
+    const arweaveTx = !isChunked && version?.getUri(StorageType.ARWEAVE);
+    if (!getTag(tags, protocolTags.SIGNATURE) && arweaveTx) {
+      tags = (await getTxMetadata(arweaveTx, this.api.config)).tags;
+    }
+    const resourceHash = await digestRaw(new Uint8Array(fileData));
+    const expectedHash = (!isChunked && version?.getUri(StorageType.HASH)) || getTag(tags, fileTags.FILE_HASH);
+    if (expectedHash && expectedHash !== resourceHash) {
+      throw new IntegrityError(`File hash mismatch, expected: ${expectedHash}, actual: ${resourceHash}`, context);
+    }
+    const signature = getTag(tags, protocolTags.SIGNATURE);
+    const signer = getTag(tags, protocolTags.SIGNER_ADDRESS);
+    if (!signature || !signer) {
+      if (isChunked) {
+        // chunks uploaded before the chunks were signed carry no signature
+        this.logger.warn("Missing chunk signature, skipping the signature check", context);
+        return;
+      }
+      throw new IntegrityError("Missing file signature.", context);
+    }
+    if (version?.owner && version.owner !== signer) {
+      throw new IntegrityError(`File signed by ${signer} instead of the version owner: ${version.owner}`, context);
+    }
+    const publicSigningKey = await this.getMemberSigningKey(signer);
+    const isValid = await verifySignature(resourceHash, signature, publicSigningKey);
+    if (!isValid) {
+      throw new IntegrityError("Invalid file signature.", context);
+    }
+  }
+
   public async newVersion(file: FileLike, uploadResult: FileUploadResult): Promise<FileVersion> {
     const version = new FileVersion({
       owner: await this.wallet.getAddress(),
@@ -247,7 +309,7 @@ class FileService extends Service {
       );
       offset += this.chunkSize;
       uploadedChunks += 1;
-      Logger.log("Encrypted & uploaded chunk: " + chunkNumber);
+      this.logger.debug("Encrypted & uploaded chunk", { resourceUrl: resourceUrl, chunkNumber: chunkNumber });
     }
     if (!this.isPublic) {
       const ivIndex = encryptionTags.findIndex((tag) => tag.name === encTags.IV);
@@ -278,17 +340,35 @@ class FileService extends Service {
     resourceSize: number,
     options: Hooks
   ) {
+    const { signatureTags } = await this.sign(chunk.processedData);
     const resource = await new ApiClient()
       .env(this.api.config)
       .resourceId(`${resourceUrl}_${chunkNumber}`)
       .data(chunk.processedData)
-      .tags(tags.concat(chunk.encryptionTags))
+      .tags(tags.concat(signatureTags).concat(chunk.encryptionTags))
       .public(this.isPublic)
       .cacheOnly(true)
       .progressHook(options.progressHook, chunkNumber * this.chunkSize, resourceSize)
       .cancelHook(options.cancelHook)
       .uploadFile()
-    Logger.log("Uploaded file with id: " + resource.resourceUrl);
+    this.logger.trace("Uploaded chunk", { resourceUrl: resource.resourceUrl, chunkNumber: chunkNumber });
+  }
+
+  // file hash & uploader signature tags, verified on download
+  private async sign(processedData: ArrayBuffer): Promise<{ resourceHash: string, signatureTags: Tags }> {
+    const resourceHash = await digestRaw(new Uint8Array(processedData));
+    const signature = await signHash(
+      base64ToArray(resourceHash),
+      this.wallet.signingPrivateKeyRaw()
+    );
+    return {
+      resourceHash,
+      signatureTags: [
+        new Tag(fileTags.FILE_HASH, resourceHash),
+        new Tag(protocolTags.SIGNATURE, signature),
+        new Tag(protocolTags.SIGNER_ADDRESS, await this.wallet.getAddress())
+      ]
+    };
   }
 
   private async encryptChunk(chunk: Blob, offset: number, encryptedKey?: string): Promise<{
@@ -312,19 +392,32 @@ class FileService extends Service {
   }
 
   private async getBinary(id: string, options: FileDownloadOptions) {
+    options.public = this.isPublic;
+    let file: { fileData: ArrayBuffer, metadata: EncryptionMetadata, tags?: Tags };
     try {
-      options.public = this.isPublic;
-      const { fileData, metadata } = await this.api.downloadFile(id, options);
-      return await this.processReadRaw(fileData, metadata);
+      file = await this.api.downloadFile(id, options);
     } catch (e) {
-      Logger.log(e);
-      throw new Error(
-        "Failed to download. Please check your network connection." +
-        " Please upload the file again if problem persists and/or contact Akord support."
-      );
+      throw this.downloadFailed(id, e);
+    }
+    if (options.verify) {
+      // verification failures are rethrown as is: tampered file, bad key or missing member key
+      await this.verify(file.fileData, file.tags, undefined, options.isChunked);
+    }
+    try {
+      return await this.processReadRaw(file.fileData, file.metadata);
+    } catch (e) {
+      throw this.downloadFailed(id, e);
     }
   }
 
+  private downloadFailed(id: string, error: Error): Error {
+    this.logger.debug("Failed to download file", { resourceUrl: id, error: error });
+    return new Error(
+      "Failed to download. Please check your network connection." +
+      " Please upload the file again if problem persists and/or contact Akord support."
+    );
+  }
+
   private getFileTags(file: FileLike, options: FileUploadOptions = {}): Tags {
     const tags = [] as Tags;
     if (this.isPublic) {
@@ -383,7 +476,12 @@ export type FileDownloadOptions = Hooks & {
   isChunked?: boolean,
   numberOfChunks?: number,
   loadedSize?: number,
-  resourceSize?: number
+  resourceSize?: number,
+  verify?: boolean // verify the file hash & signature before decryption
+}
+
+const getTag = (tags: Tags, name: string): string => {
+  return tags?.find((tag: Tag) => tag.name === name)?.value;
 }
 
 async function createFileLike(source: FileSource, options: FileOptions = {})
@@ -395,7 +493,7 @@ async function createFileLike(source: FileSource, options: FileOptions = {})
         throw new BadRequest("File name is required, please provide it in the file options.");
       }
       if (!mimeType) {
-        console.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
+        Logger.default.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
       }
       return new File([source as any], options.name, { type: mimeType, lastModified: options.lastModified });
     } else if (source instanceof File) {
@@ -405,7 +503,7 @@ async function createFileLike(source: FileSource, options: FileOptions = {})
         throw new BadRequest("File name is required, please provide it in the file options.");
       }
       if (!mimeType) {
-        console.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
+        Logger.default.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
       }
       return new File(source, options.name, { type: mimeType, lastModified: options.lastModified });
     }
@@ -0,0 +1,160 @@
+import lodash from "lodash";
+import { BadRequest } from "../errors/bad-request";
+import { FieldCondition, Filter, FilterOperator, MembershipFilterFields, NodeFilterFields, VaultFilterFields } from "../types/filter";
+
+const OPERATORS = ["eq", "ne", "in", "gt", "lt", "beginsWith"] as FilterOperator[];
+
+export const NODE_FILTER_FIELDS = ["id", "status", "parentId", "owner", "createdAt", "updatedAt"] as Array<keyof NodeFilterFields>;
+export const MEMBERSHIP_FILTER_FIELDS = ["id", "status", "role", "address", "owner", "email", "createdAt", "updatedAt"] as Array<keyof MembershipFilterFields>;
+export const VAULT_FILTER_FIELDS = ["status", "role", "createdAt", "updatedAt"] as Array<keyof VaultFilterFields>;
+
+/**
+ * Type-safe builder of the list filters, conditions are combined with and
+ * @example
+ * // nodes that are neither revoked nor deleted
+ * new FilterBuilder<NodeFilterFields>()
+ *   .ne("status", status.REVOKED)
+ *   .ne("status", status.DELETED)
+ *   .build();
+ */
+export class FilterBuilder<F> {
+  private filters = [] as Filter<F>[];
+
+  public eq<K extends keyof F>(field: K, value: F[K]): FilterBuilder<F> {
+    return this.where(field, { eq: value });
+  }
+
+  public ne<K extends keyof F>(field: K, value: F[K]): FilterBuilder<F> {
+    return this.where(field, { ne: value });
+  }
+
+  public in<K extends keyof F>(field: K, values: F[K][]): FilterBuilder<F> {
+    return this.where(field, { in: values });
+  }
+
+  public gt<K extends keyof F>(field: K, value: F[K]): FilterBuilder<F> {
+    return this.where(field, { gt: value });
+  }
+
+  public lt<K extends keyof F>(field: K, value: F[K]): FilterBuilder<F> {
+    return this.where(field, { lt: value });
+  }
+
+  public beginsWith<K extends keyof F>(field: K, value: string): FilterBuilder<F> {
+    return this.where(field, { beginsWith: value });
+  }
+
+  /**
+   * @param  {Array<Filter|FilterBuilder>} filters matching any of the filters
+   */
+  public or(...filters: Array<Filter<F> | FilterBuilder<F>>): FilterBuilder<F> {
+    this.filters.push({ or: filters.map(toFilter) } as Filter<F>);
+    return this;
+  }
+
+  /**
+   * @param  {Array<Filter|FilterBuilder>} filters matching all of the filters
+   */
+  public and(...filters: Array<Filter<F> | FilterBuilder<F>>): FilterBuilder<F> {
+    this.filters.push(...filters.map(toFilter));
+    return this;
+  }
+
+  public build(): Filter<F> {
+    return combine(this.filters);
+  }
+
+  private where<K extends keyof F>(field: K, condition: FieldCondition<F[K]>): FilterBuilder<F> {
+    this.filters.push({ [field]: condition } as Filter<F>);
+    return this;
+  }
+}
+
+export const nodeFilter = () => new FilterBuilder<NodeFilterFields>();
+export const membershipFilter = () => new FilterBuilder<MembershipFilterFields>();
+export const vaultFilter = () => new FilterBuilder<VaultFilterFields>();
+
+/**
+ * Validates the filter before it is serialized into the query string
+ * @param  {Filter} filter
+ * @param  {string[]} fields allowed field names
+ * @throws {BadRequest} on unknown fields, operators or invalid values
+ */
+export const validateFilter = (filter: Filter, fields: string[]) => {
+  if (filter === undefined || filter === null) {
+    return;
+  }
+  if (!lodash.isPlainObject(filter)) {
+    throw new BadRequest("Invalid filter, expected an object, got: " + JSON.stringify(filter));
+  }
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === "and") {
+      validateFilter(condition, fields);
+    } else if (key === "or") {
+      if (!Array.isArray(condition)) {
+        throw new BadRequest("Invalid filter, or expects an array of filters");
+      }
+      condition.forEach((orFilter) => validateFilter(orFilter, fields));
+    } else if (!fields.includes(key)) {
+      throw new BadRequest("Invalid filter, unknown field: " + key + ", expected one of: " + fields.join(", "));
+    } else {
+      validateCondition(key, condition);
+    }
+  }
+}
+
+const validateCondition = (field: string, condition: any) => {
+  if (!lodash.isPlainObject(condition) || !Object.keys(condition).length) {
+    throw new BadRequest("Invalid filter condition for field: " + field);
+  }
+  for (const [operator, value] of Object.entries(condition)) {
+    if (!OPERATORS.includes(operator as FilterOperator)) {
+      throw new BadRequest("Invalid filter, unknown operator: " + operator + ", expected one of: " + OPERATORS.join(", "));
+    }
+    if (operator === "in" ? !Array.isArray(value) || !value.every(isPrimitive) : !isPrimitive(value)) {
+      throw new BadRequest("Invalid filter value for: " + field + "." + operator);
+    }
+    if (operator === "beginsWith" && typeof value !== "string") {
+      throw new BadRequest("Invalid filter, beginsWith expects a string for: " + field);
+    }
+  }
+}
+
+const isPrimitive = (value: any): boolean => {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+const toFilter = <F>(filter: Filter<F> | FilterBuilder<F>): Filter<F> => {
+  return filter instanceof FilterBuilder ? filter.build() : filter;
+}
+
+// merges the conditions into a single filter, conflicting conditions are nested with and
+const combine = <F>(filters: Filter<F>[]): Filter<F> => {
+  const combined = {} as any;
+  const nested = [] as Filter<F>[];
+  for (const filter of filters) {
+    if (canMerge(combined, filter)) {
+      for (const [key, condition] of Object.entries(filter)) {
+        combined[key] = key === "and" || key === "or" ? condition : { ...combined[key], ...condition as object };
+      }
+    } else {
+      nested.push(filter);
+    }
+  }
+  if (nested.length) {
+    combined.and = combine(combined.and ? [combined.and, ...nested] : nested);
+  }
+  return combined;
+}
+
+const canMerge = (combined: any, filter: any): boolean => {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (!(key in combined)) {
+      return true;
+    }
+    if (key === "and" || key === "or") {
+      return false;
+    }
+    return Object.keys(condition).every((operator) => !(operator in combined[key]));
+  });
+}
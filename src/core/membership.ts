@@ -7,10 +7,13 @@ import { GetOptions, ListOptions } from "../types/query-options";
 import { MembershipInput, Tag, Tags } from "../types/contract";
 import { Paginated } from "../types/paginated";
 import { BadRequest } from "../errors/bad-request";
-import { IncorrectEncryptionKey } from "../errors/incorrect-encryption-key";
-import { handleListErrors, paginate } from "./common";
+import { handleListErrors, paginate, PageIterator } from "./common";
 import { ProfileService } from "./profile";
 import { ProfileDetails } from "../types/profile-details";
+import { PCacheBuster } from "@akord/ts-cacheable";
+import { CacheBusters } from "../types/cacheable";
+import { MEMBERSHIP_FILTER_FIELDS, membershipFilter, validateFilter } from "./filter";
+import { MembershipFilterFields } from "../types/filter";
 
 export const activeStatus = [status.ACCEPTED, status.PENDING, status.INVITED] as StatusType[];
 
@@ -19,13 +22,13 @@ class MembershipService extends Service {
 
   defaultListOptions = {
     shouldDecrypt: true,
-    filter: {
-      or: [
-        { status: { eq: status.ACCEPTED } },
-        { status: { eq: status.PENDING } }
-      ]
-    }
-  } as ListOptions;
+    filter: membershipFilter()
+      .or(
+        membershipFilter().eq("status", status.ACCEPTED),
+        membershipFilter().eq("status", status.PENDING)
+      )
+      .build()
+  } as ListOptions<MembershipFilterFields>;
 
   defaultGetOptions = {
     shouldDecrypt: true,
@@ -53,11 +56,12 @@ class MembershipService extends Service {
    * @param  {ListOptions} options
    * @returns Promise with paginated memberships within given vault
    */
-  public async list(vaultId: string, options: ListOptions = this.defaultListOptions): Promise<Paginated<Membership>> {
+  public async list(vaultId: string, options: ListOptions<MembershipFilterFields> = this.defaultListOptions): Promise<Paginated<Membership>> {
     const listOptions = {
       ...this.defaultListOptions,
       ...options
     }
+    validateFilter(listOptions.filter, MEMBERSHIP_FILTER_FIELDS);
     const response = await this.api.getMembershipsByVaultId(vaultId, listOptions);
     const promises = response.items
       .map(async (membershipProto: Membership) => {
@@ -76,13 +80,22 @@ class MembershipService extends Service {
    * @param  {ListOptions} options
    * @returns Promise with all memberships within given vault
    */
-  public async listAll(vaultId: string, options: ListOptions = this.defaultListOptions): Promise<Array<Membership>> {
+  public async listAll(vaultId: string, options: ListOptions<MembershipFilterFields> = this.defaultListOptions): Promise<Array<Membership>> {
     const list = async (options: ListOptions & { vaultId: string }) => {
       return await this.list(options.vaultId, options);
     }
     return await paginate<Membership>(list, { ...options, vaultId });
   }
 
+  /**
+   * @param  {string} vaultId
+   * @param  {ListOptions} options
+   * @returns async iterable over memberships within given vault, decrypted page by page
+   */
+  public iterate(vaultId: string, options: ListOptions<MembershipFilterFields> = this.defaultListOptions): PageIterator<Membership> {
+    return new PageIterator<Membership>((listOptions: ListOptions) => this.list(vaultId, listOptions), options);
+  }
+
   /**
    * Invite user with an Akord account
    * @param  {string} vaultId
@@ -91,6 +104,9 @@ class MembershipService extends Service {
    * @param  {MembershipCreateOptions} [options] invitation email message, etc.
    * @returns Promise with new membership id & corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async invite(vaultId: string, email: string, role: RoleType, options: MembershipCreateOptions = {}): Promise<MembershipCreateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -133,6 +149,9 @@ class MembershipService extends Service {
    * @param  {{publicKey:string,publicSigningKey:string,role:RoleType}[]} members
    * @returns Promise with new memberships & corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async airdrop(
     vaultId: string,
     members: Array<{ publicKey: string, publicSigningKey: string, role: RoleType, options?: { name?: string, expirationDate?: Date } }>,
@@ -198,6 +217,9 @@ class MembershipService extends Service {
    * @param  {string} membershipId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async accept(membershipId: string): Promise<MembershipUpdateResult> {
     const profileService = new ProfileService(this.wallet, this.api);
     const memberDetails = await profileService.get();
@@ -224,6 +246,9 @@ class MembershipService extends Service {
    * @param  {string} membershipId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async confirm(membershipId: string): Promise<MembershipUpdateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContextFromMembershipId(membershipId);
@@ -261,6 +286,9 @@ class MembershipService extends Service {
    * @param  {string} membershipId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async reject(membershipId: string): Promise<MembershipUpdateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContextFromMembershipId(membershipId);
@@ -280,6 +308,9 @@ class MembershipService extends Service {
    * @param  {string} membershipId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async leave(membershipId: string): Promise<MembershipUpdateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContextFromMembershipId(membershipId);
@@ -299,6 +330,9 @@ class MembershipService extends Service {
    * @param  {string} membershipId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async revoke(membershipId: string): Promise<MembershipUpdateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContextFromMembershipId(membershipId);
@@ -349,6 +383,9 @@ class MembershipService extends Service {
    * @param  {RoleType} role VIEWER/CONTRIBUTOR/OWNER
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async changeRole(membershipId: string, role: RoleType): Promise<MembershipUpdateResult> {
     const service = new MembershipService(this.wallet, this.api);
     await service.setVaultContextFromMembershipId(membershipId);
@@ -372,6 +409,9 @@ class MembershipService extends Service {
    * @param  {MembershipCreateOptions} [options] invitation email message, etc.
    * @returns Promise with new membership id & corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async inviteNewUser(vaultId: string, email: string, role: RoleType, options: MembershipCreateOptions = {}): Promise<{
     membershipId: string
   }> {
@@ -384,6 +424,9 @@ class MembershipService extends Service {
  * @param  {string} vaultId
  * @param  {string} membershipId
  */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async revokeInvite(vaultId: string, membershipId: string): Promise<void> {
     await this.api.revokeInvite(vaultId, membershipId);
   }
@@ -439,10 +482,10 @@ class MembershipService extends Service {
       try {
         await membership.decrypt();
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error, object.vaultId);
       }
     }
-    return membership;
+    return await this.verifyState(membership, object);
   }
 
   async prepareMemberKeys(publicKey: string): Promise<EncryptedKeys[]> {
@@ -455,7 +498,7 @@ class MembershipService extends Service {
           return keyPair;
         });
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error);
       }
     } else {
       return null;
@@ -479,7 +522,7 @@ class MembershipService extends Service {
       try {
         memberKeys.set(memberId, [await memberKeysEncrypter.encryptMemberKey(keyPair)]);
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error);
       }
     }
     return { memberKeys, keyPair };
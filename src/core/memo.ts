@@ -5,7 +5,6 @@ import { Memo, MemoReaction, MemoVersion, nodeType } from "../types/node";
 import { ListOptions } from "../types/query-options";
 import { NotFound } from "../errors/not-found";
 import { EncryptedKeys } from "@akord/crypto";
-import { IncorrectEncryptionKey } from "../errors/incorrect-encryption-key";
 
 class MemoService extends NodeService<Memo> {
   static readonly reactionEmoji = reactionEmoji;
@@ -94,7 +93,7 @@ class MemoService extends NodeService<Memo> {
       try {
         await memo.decrypt();
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error, object.vaultId);
       }
     }
     return memo;
@@ -6,10 +6,13 @@ import { GetOptions, ListOptions } from '../types/query-options';
 import { ContractInput, Tag, Tags } from '../types/contract';
 import { Paginated } from '../types/paginated';
 import { v4 as uuidv4 } from "uuid";
-import { IncorrectEncryptionKey } from '../errors/incorrect-encryption-key';
 import { BadRequest } from '../errors/bad-request';
-import { handleListErrors, paginate } from './common';
+import { handleListErrors, paginate, PageIterator } from './common';
 import { NFT } from '../types/nft';
+import { filter, from, Observable, switchMap } from 'rxjs';
+import { ChangeEvent, toChangeEvents } from './watch';
+import { NODE_FILTER_FIELDS, nodeFilter, validateFilter } from './filter';
+import { NodeFilterFields } from '../types/filter';
 
 class NodeService<T> extends Service {
   objectType: NodeType;
@@ -19,13 +22,11 @@ class NodeService<T> extends Service {
   defaultListOptions = {
     shouldDecrypt: true,
     parentId: undefined,
-    filter: {
-      status: { ne: status.REVOKED },
-      and: {
-        status: { ne: status.DELETED }
-      }
-    }
-  } as ListOptions;
+    filter: nodeFilter()
+      .ne("status", status.REVOKED)
+      .ne("status", status.DELETED)
+      .build()
+  } as ListOptions<NodeFilterFields>;
 
   defaultGetOptions = {
     shouldDecrypt: true,
@@ -56,11 +57,12 @@ class NodeService<T> extends Service {
    * @param  {ListOptions} options
    * @returns Promise with paginated nodes within given vault
    */
-  public async list(vaultId: string, options: ListOptions = this.defaultListOptions = this.defaultListOptions): Promise<Paginated<T>> {
+  public async list(vaultId: string, options: ListOptions<NodeFilterFields> = this.defaultListOptions): Promise<Paginated<T>> {
     const listOptions = {
       ...this.defaultListOptions,
       ...options
     }
+    validateFilter(listOptions.filter, NODE_FILTER_FIELDS);
     const response = await this.api.getNodesByVaultId<T>(vaultId, this.objectType, listOptions);
     const promises = response.items
       .map(async (nodeProto: any) => {
@@ -79,13 +81,34 @@ class NodeService<T> extends Service {
    * @param  {ListOptions} options
    * @returns Promise with all nodes within given vault
    */
-  public async listAll(vaultId: string, options: ListOptions = this.defaultListOptions): Promise<Array<T>> {
+  public async listAll(vaultId: string, options: ListOptions<NodeFilterFields> = this.defaultListOptions): Promise<Array<T>> {
     const list = async (options: ListOptions & { vaultId: string }) => {
       return await this.list(options.vaultId, options);
     }
     return await paginate<T>(list, { ...options, vaultId });
   }
 
+  /**
+   * @param  {string} vaultId
+   * @param  {ListOptions} options
+   * @returns async iterable over nodes within given vault, decrypted page by page
+   */
+  public iterate(vaultId: string, options: ListOptions<NodeFilterFields> = this.defaultListOptions): PageIterator<T> {
+    return new PageIterator<T>((listOptions: ListOptions) => this.list(vaultId, listOptions), options);
+  }
+
+  /**
+   * @param  {string} nodeId
+   * @returns Observable of decrypted change events of the node
+   */
+  public watch(nodeId: string): Observable<ChangeEvent<T>> {
+    return from(this.api.getNode<NodeLike>(nodeId, this.objectType)).pipe(
+      switchMap((node) => this.getChangeFeed().transactions(node.vaultId)),
+      filter((transaction) => transaction.objectId === nodeId),
+      toChangeEvents(() => this.get(nodeId), this.logger)
+    );
+  }
+
   /**
    * @param  {string} nodeId
    * @param  {string} name new name
@@ -235,10 +258,10 @@ class NodeService<T> extends Service {
       try {
         await node.decrypt();
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error, object.vaultId);
       }
     }
-    return node as T;
+    return await this.verifyState(node, object) as T;
   }
 
   protected NodeType: new (arg0: any, arg1: EncryptedKeys[]) => NodeLike
@@ -97,5 +97,6 @@ export type NoteOptions = {
 export type NoteCreateOptions = NodeCreateOptions & NoteOptions
 
 export {
+  NoteTypes,
   NoteService
 }
\ No newline at end of file
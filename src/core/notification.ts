@@ -0,0 +1,110 @@
+import { Service } from "./service";
+import { Notification } from "../types/notification";
+import { MembershipKeys } from "../types/membership";
+import { ListOptions } from "../types/query-options";
+import { Paginated } from "../types/paginated";
+import { handleListErrors, paginate } from "./common";
+
+class NotificationService extends Service {
+
+  defaultListOptions = {
+    shouldDecrypt: true
+  } as NotificationListOptions;
+
+  /**
+   * @param  {NotificationListOptions} options vault id, etc.
+   * @returns Promise with paginated user notifications
+   */
+  public async list(options: NotificationListOptions = this.defaultListOptions): Promise<Paginated<Notification>> {
+    const listOptions = {
+      ...this.defaultListOptions,
+      ...options
+    }
+    const response = await this.api.getNotifications(listOptions);
+    // fetch the keys once per vault
+    const vaultKeys = new Map<string, Promise<MembershipKeys>>();
+    const promises = response.items
+      .map(async (notificationProto: Notification) => {
+        return await this.processNotification(notificationProto, listOptions.shouldDecrypt, vaultKeys);
+      }) as Promise<Notification>[];
+    const { items, errors } = await handleListErrors<Notification>(response.items, promises);
+    return {
+      items,
+      nextToken: response.nextToken,
+      errors
+    }
+  }
+
+  /**
+   * @param  {NotificationListOptions} options vault id, etc.
+   * @returns Promise with all user notifications
+   */
+  public async listAll(options: NotificationListOptions = this.defaultListOptions): Promise<Array<Notification>> {
+    const list = async (listOptions: NotificationListOptions) => {
+      return await this.list(listOptions);
+    }
+    return await paginate<Notification>(list, { ...options });
+  }
+
+  /**
+   * @param  {string} notificationId
+   * @returns Promise with void
+   */
+  public async markAsRead(notificationId: string): Promise<void> {
+    await this.api.readNotifications({ id: notificationId, readOnly: true });
+  }
+
+  /**
+   * @param  {string} [vaultId] mark only the notifications within given vault
+   * @returns Promise with void
+   */
+  public async markAllAsRead(vaultId?: string): Promise<void> {
+    await this.api.readNotifications({ vaultId: vaultId, readOnly: true });
+  }
+
+  /**
+   * @param  {string} notificationId
+   * @returns Promise with void
+   */
+  public async delete(notificationId: string): Promise<void> {
+    await this.api.readNotifications({ id: notificationId, shouldDelete: true });
+  }
+
+  private async processNotification(
+    notificationProto: Notification,
+    shouldDecrypt: boolean,
+    vaultKeys: Map<string, Promise<MembershipKeys>>
+  ): Promise<Notification> {
+    if (!shouldDecrypt || !notificationProto.vaultId) {
+      return new Notification(notificationProto);
+    }
+    if (!vaultKeys.has(notificationProto.vaultId)) {
+      vaultKeys.set(notificationProto.vaultId, this.api.getMembershipKeys(notificationProto.vaultId));
+    }
+    try {
+      const { isEncrypted, keys } = await vaultKeys.get(notificationProto.vaultId);
+      const notification = new Notification(notificationProto, keys);
+      if (isEncrypted) {
+        await notification.decrypt();
+      }
+      return notification;
+    } catch (error) {
+      // the user may have lost the access to the vault, skip the names that cannot be decrypted
+      this.logger.debug("Could not decrypt notification", {
+        vaultId: notificationProto.vaultId,
+        objectId: notificationProto.objectId,
+        notificationId: notificationProto.id,
+        error: error
+      });
+      return new Notification({ ...notificationProto, vaultName: undefined, objectName: undefined });
+    }
+  }
+};
+
+export type NotificationListOptions = ListOptions & {
+  vaultId?: string
+}
+
+export {
+  NotificationService
+}
@@ -0,0 +1,354 @@
+import { actionRefs, functions, objectType, protocolTags, status } from "../constants";
+import { Service } from "./service";
+import { NodeService } from "./node";
+import { NoteService, NoteTypes } from "./note";
+import { ContractService } from "./contract";
+import { Tag } from "../types/contract";
+import { Membership } from "../types/membership";
+import { Folder, Memo, NodeLike, NodeType, Stack } from "../types/node";
+import { NFT } from "../types/nft";
+import { Transaction } from "../types/transaction";
+import { ListOptions, SearchCriteria } from "../types/query-options";
+import { Paginated } from "../types/paginated";
+import { NotFound } from "../errors/not-found";
+import { BadRequest } from "../errors/bad-request";
+import { VaultService } from "./vault";
+import { normalizeAkordTags } from "./common";
+
+const SEARCH_INDEX_VERSION = 1;
+
+// node types with searchable contents
+const INDEXED_TYPES = [objectType.FOLDER, objectType.STACK, objectType.MEMO] as string[];
+
+// node types searchable by tags & the result groups
+const TAGGED_GROUPS = {
+  [objectType.FOLDER]: "folders",
+  [objectType.STACK]: "stacks",
+  [objectType.MEMO]: "memos",
+  [objectType.NFT]: "nfts"
+} as { [type: string]: "folders" | "stacks" | "memos" | "nfts" };
+const TAGGED_TYPES = Object.keys(TAGGED_GROUPS) as NodeType[];
+
+export type SearchOptions = {
+  types?: NodeType[], // search only within given node types
+  limit?: number // the limit of the number of results (default to 20)
+}
+
+export type SearchResult = {
+  id: string,
+  type: NodeType,
+  name?: string, // decrypted node name, undefined for memos
+  score: number // number of matching term occurrences
+}
+
+export type TagSearchOptions = {
+  criteria?: SearchCriteria, // default to CONTAINS_EVERY
+  types?: NodeType[], // search only within given node types (default to Folder, Stack, Memo & NFT)
+  vaultIds?: string[], // search only within given vaults (default to all vaults of the user)
+  concurrency?: number // the limit of the number of vaults searched in parallel (default to 4)
+}
+
+export type TagSearchResult = {
+  vaultId: string,
+  folders: Array<Folder>,
+  stacks: Array<Stack>,
+  memos: Array<Memo>,
+  nfts: Array<NFT>
+}
+
+export type SearchIndexUpdateOptions = {
+  rebuild?: boolean // reindex all the vault nodes, ex: if the index cannot be decrypted anymore
+}
+
+type SearchIndex = {
+  version: number,
+  cursor?: { postedAt: string, ids: string[] }, // the latest indexed transactions
+  documents: { [nodeId: string]: { type: NodeType, name?: string, terms: string[] } },
+  terms: { [term: string]: { [nodeId: string]: number } }
+}
+
+/**
+ * Client-side full-text search over the decrypted node names, memo messages & note contents
+ * The inverted index is encrypted with the vault keys & stored in the membership state of the current user:
+ * the vault state can be updated by the owners only, while every member can update the own membership,
+ * so that contributors & viewers can keep their index too
+ * The index is updated incrementally from the vault transactions: nodes created, renamed or revised since the last update are reindexed
+ * Search stores the index only if it had to be built from scratch, the later changes are reindexed in memory until update()
+ */
+class SearchService extends Service {
+  /**
+   * @param  {string} vaultId
+   * @param  {string} query all the query words have to match, the last one as a prefix
+   * @param  {SearchOptions} [options]
+   * @returns Promise with matching nodes ordered by the score
+   */
+  public async search(vaultId: string, query: string, options: SearchOptions = {}): Promise<Array<SearchResult>> {
+    const { index } = await this.syncIndex(vaultId, { store: false });
+    const words = tokenize(query);
+    if (!words.length) {
+      return [];
+    }
+    const scores = words
+      .map((word, position) => {
+        const isPrefix = position === words.length - 1;
+        const matches = new Map<string, number>();
+        Object.keys(index.terms)
+          .filter((term) => isPrefix ? term.startsWith(word) : term === word)
+          .forEach((term) => Object.entries(index.terms[term])
+            .forEach(([nodeId, count]) => matches.set(nodeId, (matches.get(nodeId) || 0) + count)));
+        return matches;
+      })
+      .reduce((intersection, matches) => {
+        const scores = new Map<string, number>();
+        intersection.forEach((score, nodeId) => {
+          if (matches.has(nodeId)) {
+            scores.set(nodeId, score + matches.get(nodeId));
+          }
+        });
+        return scores;
+      });
+    return [...scores.entries()]
+      .filter(([nodeId]) => !options.types || options.types.includes(index.documents[nodeId].type))
+      .map(([nodeId, score]) => ({ id: nodeId, type: index.documents[nodeId].type, name: index.documents[nodeId].name, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit || 20);
+  }
+
+  /**
+   * Searches the nodes by tags across the vaults, failures of single vaults or nodes are reported in errors
+   * @param  {string[]} values tag values, normalized the same way as the tags on node creation
+   * @param  {TagSearchOptions} [options]
+   * @returns Promise with decrypted matching nodes grouped by vault, vaults without matches are skipped
+   */
+  public async byTags(values: string[], options: TagSearchOptions = {}): Promise<Omit<Paginated<TagSearchResult>, "nextToken">> {
+    const tags = { values: normalizeAkordTags(values), searchCriteria: options.criteria || "CONTAINS_EVERY" as SearchCriteria };
+    if (!tags.values.length) {
+      throw new BadRequest("Missing tag values to search for.");
+    }
+    const types = options.types || TAGGED_TYPES;
+    const unsupported = types.filter((type) => !TAGGED_TYPES.includes(type));
+    if (unsupported.length) {
+      throw new BadRequest("Given types are not supported: " + unsupported.join(", ") + ", expected one of: " + TAGGED_TYPES.join(", "));
+    }
+    const errors = [] as Array<{ id: string, error: Error }>;
+    const vaultIds = options.vaultIds || await this.listVaultIds(errors);
+    const results = await mapWithConcurrency(vaultIds, options.concurrency || 4, async (vaultId) => {
+      try {
+        return await this.searchVaultByTags(vaultId, types, tags, errors);
+      } catch (error) {
+        this.logger.debug("Could not search the vault by tags", { vaultId: vaultId, error: error });
+        errors.push({ id: vaultId, error });
+        return undefined;
+      }
+    });
+    return {
+      items: results.filter((result) => result),
+      errors
+    };
+  }
+
+  /**
+   * Reindexes the nodes changed since the last update & stores the index if changed
+   * @param  {string} vaultId
+   * @param  {SearchIndexUpdateOptions} [options]
+   * @returns Promise with the number of reindexed nodes
+   */
+  public async update(vaultId: string, options: SearchIndexUpdateOptions = {}): Promise<{ indexed: number }> {
+    const { indexed } = await this.syncIndex(vaultId, { rebuild: options.rebuild, store: true });
+    return { indexed };
+  }
+
+  // the index built from scratch is always stored, so that the next searches do not replay the whole vault history
+  private async syncIndex(vaultId: string, options: { rebuild?: boolean, store: boolean })
+    : Promise<{ index: SearchIndex, indexed: number }> {
+    const service = new SearchService(this.wallet, this.api);
+    const membership = await service.setSearchContext(vaultId);
+    const index = options.rebuild ? newIndex() : await service.loadIndex(membership);
+    const isNew = !index.cursor;
+    const indexed = await service.indexTransactions(index);
+    if (indexed && (options.store || isNew)) {
+      // the index update is a transaction too, do not store the index if only the cursor moved
+      await service.storeIndex(index);
+    }
+    return { index, indexed };
+  }
+
+  private async listVaultIds(errors: Array<{ id: string, error: Error }>): Promise<string[]> {
+    const iterator = new VaultService(this.wallet, this.api).iterate({ shouldDecrypt: false });
+    const vaultIds = [] as string[];
+    for await (const vault of iterator) {
+      vaultIds.push(vault.id);
+    }
+    errors.push(...iterator.errors);
+    return vaultIds;
+  }
+
+  private async searchVaultByTags(vaultId: string, types: NodeType[], tags: ListOptions["tags"], errors: Array<{ id: string, error: Error }>): Promise<TagSearchResult> {
+    const result = { vaultId, folders: [], stacks: [], memos: [], nfts: [] } as TagSearchResult;
+    for (const type of types) {
+      const service = new NodeService<NodeLike>(this.wallet, this.api);
+      service.objectType = type;
+      const iterator = service.iterate(vaultId, { tags });
+      for await (const node of iterator) {
+        result[TAGGED_GROUPS[type]].push(node as any);
+      }
+      errors.push(...iterator.errors);
+    }
+    const isEmpty = Object.values(TAGGED_GROUPS).every((group) => !result[group].length);
+    return isEmpty ? undefined : result;
+  }
+
+  private async setSearchContext(vaultId: string): Promise<Membership> {
+    await this.setVaultContext(vaultId);
+    const address = await this.wallet.getAddress();
+    const membership = (await this.api.getMembers(vaultId)).find((member) => member.address === address);
+    if (!membership) {
+      throw new NotFound("Could not find the membership of: " + address + " within the vault: " + vaultId);
+    }
+    this.setObject(membership);
+    this.setObjectId(membership.id);
+    this.setObjectType(objectType.MEMBERSHIP);
+    return membership;
+  }
+
+  private async loadIndex(membership: Membership): Promise<SearchIndex> {
+    const stateId = membership.searchIndex;
+    if (!stateId) {
+      return newIndex();
+    }
+    try {
+      const state = await this.api.getNodeState(stateId);
+      const index = JSON.parse(await this.processReadString(state.index)) as SearchIndex;
+      if (index.version === SEARCH_INDEX_VERSION) {
+        return index;
+      }
+    } catch (error) {
+      // ex: the vault keys were rotated
+      this.logger.warn("Could not load the search index, rebuilding it", { stateId: stateId, error: error });
+    }
+    return newIndex();
+  }
+
+  private async indexTransactions(index: SearchIndex): Promise<number> {
+    const cursor = index.cursor;
+    const transactions = (await new ContractService(this.wallet, this.api).listAll(this.vaultId, cursor
+      ? { filter: { postedAt: { gt: JSON.stringify(parseInt(cursor.postedAt) - 1) } } }
+      : {}))
+      .filter((transaction) => !cursor?.ids.includes(transaction.id));
+    if (!transactions.length) {
+      return 0;
+    }
+    const changes = new Map<string, Transaction>();
+    transactions
+      .filter((transaction) => transaction.function.startsWith("node:") && INDEXED_TYPES.includes(transaction.objectType))
+      .forEach((transaction) => changes.set(transaction.objectId, transaction));
+    for (const transaction of changes.values()) {
+      removeDocument(index, transaction.objectId);
+      const text = await this.getSearchableText(transaction);
+      if (text) {
+        addDocument(index, transaction.objectId, transaction.objectType as NodeType, text);
+      }
+    }
+    // the listing order is not guaranteed, the cursor must not move backwards
+    const latest = transactions.reduce((max, transaction) => Math.max(max, parseInt(transaction.postedAt)), 0);
+    index.cursor = {
+      postedAt: JSON.stringify(latest),
+      ids: transactions.filter((transaction) => parseInt(transaction.postedAt) === latest).map((transaction) => transaction.id)
+    };
+    return changes.size;
+  }
+
+  // returns undefined if the node is not searchable anymore, ex: revoked
+  private async getSearchableText(transaction: Transaction): Promise<{ name?: string, contents: string[] }> {
+    const service = new NodeService<NodeLike>(this.wallet, this.api);
+    service.objectType = transaction.objectType as NodeType;
+    let node: NodeLike;
+    try {
+      node = await service.get(transaction.objectId, { vaultId: this.vaultId });
+    } catch (error) {
+      this.logger.debug("Could not index the node", { nodeId: transaction.objectId, error: error });
+      return undefined;
+    }
+    if (node.status !== status.ACTIVE) {
+      return undefined;
+    }
+    if (node instanceof Memo) {
+      return { contents: node.versions.map((version) => version.message) };
+    }
+    const name = (node as any).name;
+    const contents = [name];
+    if (node instanceof Stack) {
+      contents.push(...node.versions.map((version) => version.name));
+      if (Object.values(NoteTypes).includes(node.getVersion().type as NoteTypes)) {
+        const note = await new NoteService(this.wallet, this.api).getVersion(node.id);
+        contents.push(note.data);
+      }
+    }
+    return { name, contents };
+  }
+
+  private async storeIndex(index: SearchIndex) {
+    this.setActionRef(actionRefs.MEMBERSHIP_SEARCH_INDEX_UPDATE);
+    this.setFunction(functions.MEMBERSHIP_UPDATE);
+    const indexId = await this.uploadState({ index: await this.processWriteString(JSON.stringify(index)) });
+    const data = await this.mergeAndUploadState({ searchIndex: indexId });
+    await this.api.postContractTransaction(
+      this.vaultId,
+      { function: this.function, data },
+      (await this.getTxTags()).concat(new Tag(protocolTags.MEMBERSHIP_ID, this.objectId))
+    );
+  }
+}
+
+const newIndex = (): SearchIndex => ({ version: SEARCH_INDEX_VERSION, documents: {}, terms: {} });
+
+const addDocument = (index: SearchIndex, nodeId: string, type: NodeType, text: { name?: string, contents: string[] }) => {
+  const counts = new Map<string, number>();
+  text.contents
+    .filter((content) => content)
+    .forEach((content) => tokenize(content).forEach((term) => counts.set(term, (counts.get(term) || 0) + 1)));
+  counts.forEach((count, term) => {
+    index.terms[term] = { ...index.terms[term], [nodeId]: count };
+  });
+  index.documents[nodeId] = { type, name: text.name, terms: [...counts.keys()] };
+}
+
+const removeDocument = (index: SearchIndex, nodeId: string) => {
+  const document = index.documents[nodeId];
+  if (!document) {
+    return;
+  }
+  document.terms.forEach((term) => {
+    delete index.terms[term][nodeId];
+    if (!Object.keys(index.terms[term]).length) {
+      delete index.terms[term];
+    }
+  });
+  delete index.documents[nodeId];
+}
+
+// maps the items keeping the order, with at most given number of pending calls
+const mapWithConcurrency = async <T, R>(items: T[], concurrency: number, call: (item: T) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const position = next++;
+      results[position] = await call(items[position]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// lower case words, split on whitespaces & punctuation
+const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[\s!-\/:-@\[-`{-~\u00a0-\u00bf\u2000-\u206f]+/)
+    .filter((word) => word);
+}
+
+export {
+  SearchService
+}
@@ -1,4 +1,5 @@
 import { Api } from "../api/api";
+import lodash from "lodash";
 import {
   Wallet,
   Encrypter,
@@ -11,6 +12,7 @@ import {
   arrayToBase64,
   base64ToJson,
   deriveAddress,
+  digest,
   EncryptedKeys
 } from "@akord/crypto";
 import { objectType, protocolTags, functions, dataTags, encryptionTags, smartweaveTags, AKORD_TAG } from '../constants';
@@ -18,10 +20,14 @@ import { Vault } from "../types/vault";
 import { Tag, Tags } from "../types/contract";
 import { NodeLike } from "../types/node";
 import { Membership } from "../types/membership";
-import { Object, ObjectType } from "../types/object";
+import { Object, ObjectType, VerificationStatus } from "../types/object";
 import { EncryptedPayload } from "@akord/crypto/lib/types";
 import { IncorrectEncryptionKey } from "../errors/incorrect-encryption-key";
-import { getEncryptedPayload, mergeState } from "./common";
+import { IntegrityError } from "../errors/integrity-error";
+import { getEncryptedPayload, mergeState, normalizeAkordTags, verifySignature } from "./common";
+import { ChangeFeed, PollingChangeFeed } from "./watch";
+import { VaultContext } from "./vault-context-cache";
+import { Logger } from "../logger";
 
 export type EncryptionMetadata = {
   encryptedKey?: string,
@@ -30,6 +36,9 @@ export type EncryptionMetadata = {
 
 export const STATE_CONTENT_TYPE = "application/json";
 
+// object fields signed within the state, compared with the ones returned by the api
+const STATE_FIELDS = ["name", "description", "termsOfAccess", "versions", "memberDetails"];
+
 class Service {
   api: Api
   wallet: Wallet
@@ -50,6 +59,10 @@ class Service {
   tags: string[] // akord tags for easier search
   arweaveTags: Tags // arweave tx tags
 
+  changeFeed: ChangeFeed // source of the watch subscriptions
+
+  private signingKeys = new Map<string, Promise<Map<string, string>>>();
+
   constructor(wallet: Wallet, api: Api, service?: Service, encryptionKeys?: EncryptionKeys) {
     this.wallet = wallet
     this.api = api
@@ -72,6 +85,7 @@ class Service {
       this.setObject(service.object);
       this.setGroupRef(service.groupRef);
       this.setAkordTags(service.tags);
+      this.setChangeFeed(service.changeFeed);
     }
   }
 
@@ -116,6 +130,26 @@ class Service {
     this.vault = vault;
   }
 
+  setChangeFeed(changeFeed: ChangeFeed) {
+    this.changeFeed = changeFeed;
+  }
+
+  // client logger bound to the service context
+  protected get logger(): Logger {
+    return (this.api.logger || Logger.default).child({
+      vaultId: this.vaultId,
+      objectId: this.objectId,
+      actionRef: this.actionRef
+    });
+  }
+
+  protected getChangeFeed(): ChangeFeed {
+    if (!this.changeFeed) {
+      this.changeFeed = new PollingChangeFeed(this.api);
+    }
+    return this.changeFeed;
+  }
+
   setRawDataEncryptionPublicKey(publicKey: Uint8Array) {
     this.dataEncrypter.setRawPublicKey(publicKey);
   }
@@ -130,7 +164,7 @@ class Service {
     try {
       encryptedPayload = await this.dataEncrypter.encryptRaw(stringToArray(data)) as string;
     } catch (error) {
-      throw new IncorrectEncryptionKey(error);
+      throw this.incorrectEncryptionKey(error);
     }
     const decodedPayload = base64ToJson(encryptedPayload) as any;
     decodedPayload.publicAddress = (await this.getActiveKey()).address;
@@ -138,12 +172,45 @@ class Service {
     return jsonToBase64(decodedPayload);
   }
 
+  /**
+   * Drops the cached vault context, as its keys may be outdated, ex: rotated on member revoke
+   * @param  {Error} error
+   * @param  {string} [vaultId] default to the current vault
+   * @returns the error to throw
+   */
+  protected incorrectEncryptionKey(error: Error, vaultId = this.vaultId): IncorrectEncryptionKey {
+    if (vaultId) {
+      this.api.vaultContextCache?.invalidate(vaultId);
+    }
+    return new IncorrectEncryptionKey(error);
+  }
+
   async setVaultContext(vaultId: string) {
+    if (!this.api.vaultContextCache) {
+      await this.loadVaultContext(vaultId);
+      return;
+    }
+    const { vault, keys, publicKey } = await this.api.vaultContextCache.get(
+      vaultId,
+      this.wallet,
+      () => this.loadVaultContext(vaultId)
+    );
+    this.setVault(vault);
+    this.setVaultId(vaultId);
+    this.setIsPublic(vault.public);
+    if (!vault.public) {
+      this.setKeys(keys);
+      this.setRawDataEncryptionPublicKey(publicKey);
+    }
+  }
+
+  private async loadVaultContext(vaultId: string): Promise<VaultContext> {
     const vault = await this.api.getVault(vaultId);
     this.setVault(vault);
     this.setVaultId(vaultId);
     this.setIsPublic(vault.public);
     await this.setMembershipKeys(vault);
+    return { vault, keys: this.keys, publicKey: this.dataEncrypter.publicKey };
   }
 
   async setMembershipKeys(object: Object) {
@@ -164,7 +231,7 @@ class Service {
           this.setRawDataEncryptionPublicKey(publicKey);
         }
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error);
       }
     }
   }
@@ -203,12 +270,8 @@ class Service {
     if (this.actionRef) {
       tags.push(new Tag(protocolTags.ACTION_REF, this.actionRef));
     }
-    this.tags
-      ?.filter(tag => tag)
-      ?.map((tag: string) =>
-        tag?.split(" ").join(",").split(".").join(",").split(",").map((value: string) =>
-          tags.push(new Tag(AKORD_TAG, value.toLowerCase())))
-      );
+    normalizeAkordTags(this.tags || [])
+      .forEach((value: string) => tags.push(new Tag(AKORD_TAG, value)));
     // remove duplicates
     return [...new Map(tags.map(item => [item.value, item])).values()];
   }
@@ -223,7 +286,7 @@ class Service {
       try {
         encryptedFile = await this.dataEncrypter.encryptRaw(new Uint8Array(data), false, encryptedKey) as EncryptedPayload;
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error);
       }
       processedData = encryptedFile.encryptedData.ciphertext;
       const { address } = await this.getActiveKey();
@@ -247,7 +310,7 @@ class Service {
         return this.dataEncrypter.decryptRaw(data as string);
       }
     } catch (error) {
-      throw new IncorrectEncryptionKey(error);
+      throw this.incorrectEncryptionKey(error);
     }
   }
 
@@ -264,10 +327,127 @@ class Service {
     };
   }
 
+  /**
+   * Verifies the signature of the latest object state if the state verification is enabled,
+   * checks that the state belongs to the object & that the returned fields match the signed ones,
+   * sets the verification status & the signer address on the object
+   * The contract fields: status, role & parentId are not part of the state, see: ContractService#verify
+   * @param  {T} object vault, node or membership
+   * @param  {any} [proto] object as returned by the api, before decryption
+   * @returns Promise with the object, rejects with IntegrityError in strict mode if the state is not verified
+   */
+  protected async verifyState<T extends Object>(object: T, proto: any = object): Promise<T> {
+    const mode = this.api.stateVerification || "off";
+    if (mode === "off" || !object?.data?.length) {
+      return object;
+    }
+    const vaultId = (<any>object).vaultId || object.id;
+    const stateId = object.data[object.data.length - 1];
+    const { state, status, signer } = await this.loadVerifiedState(vaultId, stateId, object.id);
+    const mismatch = status === "VERIFIED" && STATE_FIELDS
+      .find((field) => state?.[field] !== undefined && !lodash.isEqual(proto[field], state[field]));
+    if (mismatch) {
+      this.logger.debug("Object field does not match the verified state", { stateId: stateId, field: mismatch });
+    }
+    object.verificationStatus = mismatch ? "INVALID" : status;
+    object.verifiedBy = object.verificationStatus === "VERIFIED" ? signer : undefined;
+    if (mode === "strict" && object.verificationStatus !== "VERIFIED") {
+      throw new IntegrityError(`State ${stateId} could not be verified, status: ${object.verificationStatus}`, { vaultId, objectId: object.id });
+    }
+    return object;
+  }
+
+  /**
+   * Verified state loader: downloads the state with its tags, checks that the state was uploaded for the object
+   * & verifies the signature against the signer's membership
+   * @param  {string} vaultId
+   * @param  {string} stateId
+   * @param  {string} objectId vault, node or membership id the state should belong to
+   * @returns Promise with the state, its verification status & the signer address
+   */
+  protected async loadVerifiedState(vaultId: string, stateId: string, objectId: string)
+    : Promise<{ state?: any, status: VerificationStatus, signer?: string }> {
+    let state: any;
+    try {
+      const stateWithTags = await this.api.getNodeStateWithTags(stateId);
+      state = stateWithTags.state;
+      const getTag = (name: string) => stateWithTags.tags?.find((tag) => tag.name === name)?.value;
+      const signature = getTag(protocolTags.SIGNATURE);
+      const signer = getTag(protocolTags.SIGNER_ADDRESS);
+      if (!signature || !signer) {
+        return { state, status: "UNVERIFIED" };
+      }
+      // vault states are tagged with the vault id only
+      const stateObjectId = getTag(protocolTags.NODE_ID) || getTag(protocolTags.MEMBERSHIP_ID) || getTag(protocolTags.VAULT_ID);
+      if (getTag(protocolTags.VAULT_ID) !== vaultId || stateObjectId !== objectId) {
+        throw new IntegrityError(`State ${stateId} belongs to: ${stateObjectId} instead of: ${objectId}`, { vaultId, objectId });
+      }
+      const publicSigningKey = await this.getMemberSigningKey(signer, vaultId);
+      const isValid = await verifySignature(await digest(jsonToBase64(state)), signature, publicSigningKey);
+      return { state, status: isValid ? "VERIFIED" : "INVALID", signer };
+    } catch (error) {
+      this.logger.debug("Could not verify state", { stateId: stateId, error: error });
+      return { state, status: error instanceof IntegrityError ? "INVALID" : "UNVERIFIED" };
+    }
+  }
+
+  // public signing key of the vault member, as stored in the membership
+  protected async getMemberSigningKey(address: string, vaultId = this.vaultId): Promise<string> {
+    let signingKeys = await this.getSigningKeys(vaultId);
+    if (!signingKeys.has(address)) {
+      // the signer might have joined the vault since the keys were loaded
+      this.signingKeys.delete(vaultId);
+      signingKeys = await this.getSigningKeys(vaultId);
+    }
+    const publicSigningKey = signingKeys.get(address);
+    if (!publicSigningKey) {
+      throw new IntegrityError("Signer is not a member of the vault: " + address, { vaultId });
+    }
+    if (await deriveAddress(base64ToArray(publicSigningKey)) !== address) {
+      throw new IntegrityError("Signing key does not match the signer address: " + address, { vaultId });
+    }
+    return publicSigningKey;
+  }
+
+  // public signing keys of the vault members by address, loaded once per vault
+  private getSigningKeys(vaultId: string): Promise<Map<string, string>> {
+    if (!this.signingKeys.has(vaultId)) {
+      const signingKeys = this.loadSigningKeys(vaultId);
+      signingKeys.catch(() => this.signingKeys.delete(vaultId));
+      this.signingKeys.set(vaultId, signingKeys);
+    }
+    return this.signingKeys.get(vaultId);
+  }
+
+  private async loadSigningKeys(vaultId: string): Promise<Map<string, string>> {
+    const service = new Service(this.wallet, this.api);
+    await service.setVaultContext(vaultId);
+    const signingKeys = new Map<string, string>();
+    for (const member of await this.api.getMembers(vaultId)) {
+      try {
+        signingKeys.set(member.address, member.memberPublicSigningKey
+          || await service.processReadString(member.encPublicSigningKey));
+      } catch (error) {
+        this.logger.debug("Could not read the member signing key", { vaultId: vaultId, address: member.address, error: error });
+      }
+    }
+    return signingKeys;
+  }
+
   protected async getCurrentState(): Promise<any> {
-    return this.object?.data?.length > 0
-      ? await this.api.getNodeState(this.object.data[this.object.data.length - 1])
-      : {};
+    if (!(this.object?.data?.length > 0)) {
+      return {};
+    }
+    const stateId = this.object.data[this.object.data.length - 1];
+    if (this.api.stateVerification !== "strict") {
+      return await this.api.getNodeState(stateId);
+    }
+    // do not build the new state on top of a tampered one
+    const { state, status } = await this.loadVerifiedState(this.vaultId, stateId, this.objectId || this.vaultId);
+    if (status !== "VERIFIED") {
+      throw new IntegrityError(`State ${stateId} could not be verified, status: ${status}`, { vaultId: this.vaultId, objectId: this.objectId });
+    }
+    return state;
   }
 
   protected async mergeAndUploadState(stateUpdates: any): Promise<string> {
@@ -105,19 +105,48 @@ class StackService extends NodeService<Stack> {
    * Get stack version by index, return the latest version by default
    * @param  {string} stackId
    * @param  {number} [index] stack version index
+   * @param  {StackGetVersionOptions} [options] verify the file hash & signature
    * @returns Promise with version name & data buffer
    */
-  public async getVersion(stackId: string, index?: number): Promise<{ name: string, data: ArrayBuffer }> {
+  public async getVersion(stackId: string, index?: number, options: StackGetVersionOptions = {}): Promise<{ name: string, data: ArrayBuffer }> {
     const stack = new Stack(await this.api.getNode<Stack>(stackId, objectType.STACK), null);
     const version = stack.getVersion(index);
     const service = new StackService(this.wallet, this.api);
     await service.setVaultContext(stack.vaultId);
-    const { fileData, metadata } = await this.api.downloadFile(version.getUri(StorageType.S3), { public: service.isPublic });
+    service.setObjectId(stackId);
+    const { fileData, metadata, tags } = await this.api.downloadFile(version.getUri(StorageType.S3), { public: service.isPublic });
+    if (options.verify) {
+      await new FileService(this.wallet, this.api, service).verify(fileData, tags, version);
+    }
     const data = await service.processReadRaw(fileData, metadata);
     const name = await service.processReadString(version.name);
     return { name, data };
   }
 
+  /**
+   * Verify stack version file against its hash & the signature of the uploader, verify the latest version by default
+   * Chunked files are verified chunk by chunk
+   * @param  {string} stackId
+   * @param  {number} [index] stack version index
+   * @returns Promise with void, rejects with IntegrityError if the file was tampered with
+   */
+  public async verify(stackId: string, index?: number): Promise<void> {
+    const stack = new Stack(await this.api.getNode<Stack>(stackId, objectType.STACK), null);
+    const version = stack.getVersion(index);
+    const service = new StackService(this.wallet, this.api);
+    await service.setVaultContext(stack.vaultId);
+    service.setObjectId(stackId);
+    const fileService = new FileService(this.wallet, this.api, service);
+    const resourceUrl = version.getUri(StorageType.S3);
+    const resourceUrls = version.numberOfChunks
+      ? [...Array(version.numberOfChunks).keys()].map((chunkNumber) => `${resourceUrl}_${chunkNumber}`)
+      : [resourceUrl];
+    for (const url of resourceUrls) {
+      const { fileData, tags } = await this.api.downloadFile(url, { public: service.isPublic });
+      await fileService.verify(fileData, tags, version);
+    }
+  }
+
   /**
    * Get stack file uri by index, return the latest arweave uri by default
    * @param  {string} stackId
@@ -133,6 +162,10 @@ class StackService extends NodeService<Stack> {
 
 export type StackCreateOptions = NodeCreateOptions & FileUploadOptions;
 
+export type StackGetVersionOptions = {
+  verify?: boolean // verify the file hash & signature, rejects with IntegrityError on mismatch
+}
+
 type StackCreateResult = {
   stackId: string,
   transactionId: string,
@@ -0,0 +1,85 @@
+import { EncryptedKeys, Wallet } from "@akord/crypto";
+import { Vault } from "../types/vault";
+import { Observable, Subscription } from "rxjs";
+
+export const DEFAULT_VAULT_CONTEXT_TTL = 300000;
+
+export type VaultContext = {
+  vault: Vault,
+  keys?: EncryptedKeys[],
+  publicKey?: Uint8Array // decrypted vault public key
+}
+
+type VaultContextEntry = {
+  wallet: Wallet,
+  context: Promise<VaultContext>,
+  expiresAt: number
+}
+
+/**
+ * Per-client cache of the vault contexts, saves the vault round trip & the public key decryption
+ * Entries expire after the TTL or on the vault & membership mutations of the client (ex: key rotation on member revoke)
+ */
+export class VaultContextCache {
+  private ttl: number;
+  private entries = new Map<string, VaultContextEntry>();
+  private subscription: Subscription;
+
+  /**
+   * @param  {number} [ttl] time to live of the cached context in ms (default to 5 minutes)
+   * @param  {Observable<string>} [vaultChanges] ids of the vaults changed by the client, their contexts are invalidated
+   */
+  constructor(ttl: number = DEFAULT_VAULT_CONTEXT_TTL, vaultChanges?: Observable<string>) {
+    this.ttl = ttl;
+    this.subscription = vaultChanges?.subscribe((vaultId) => this.invalidate(vaultId));
+  }
+
+  /**
+   * @param  {string} vaultId
+   * @param  {Wallet} wallet the context is cached per wallet, as it holds the member keys
+   * @param  {()=>Promise<VaultContext>} load loads the context on cache miss
+   * @returns Promise with the vault context
+   */
+  public async get(vaultId: string, wallet: Wallet, load: () => Promise<VaultContext>): Promise<VaultContext> {
+    const entry = this.entries.get(vaultId);
+    if (entry
+      && entry.wallet === wallet
+      && entry.expiresAt > Date.now()) {
+      return entry.context;
+    }
+    const context = load();
+    this.entries.set(vaultId, {
+      wallet,
+      context,
+      expiresAt: Date.now() + this.ttl
+    });
+    try {
+      return await context;
+    } catch (error) {
+      // do not cache failures
+      if (this.entries.get(vaultId)?.context === context) {
+        this.entries.delete(vaultId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @param  {string} [vaultId] invalidate all contexts if not provided
+   */
+  public invalidate(vaultId?: string) {
+    if (vaultId) {
+      this.entries.delete(vaultId);
+    } else {
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Stops listening to the vault changes & drops all contexts
+   */
+  public dispose() {
+    this.subscription?.unsubscribe();
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,252 @@
+import { Vault } from "../types/vault";
+import { Folder, FileVersion, Memo, NodeLike, Stack } from "../types/node";
+import { Membership } from "../types/membership";
+import { UDL } from "../types/udl";
+import { ArchiveFormat } from "./archive";
+import { Hooks } from "./file";
+
+export const VAULT_EXPORT_METADATA_FILE = "vault.json";
+
+const VAULT_EXPORT_VERSION = 1;
+
+export type VaultExportOptions = Hooks & {
+  format?: ArchiveFormat, // default to zip
+  path: string, // archive file path, or the target directory
+  allVersions?: boolean // export the previous stack versions next to the latest one, ex: report.v0.pdf
+}
+
+export type VaultExportResult = {
+  path: string,
+  files: number, // number of exported files
+  errors: Array<{ id: string, error: Error }>, // nodes that could not be listed or exported
+  cancelled: number // number of files not exported due to the cancellation
+}
+
+export type VaultExportFile = {
+  stackId: string,
+  index: number, // stack version index
+  version: FileVersion,
+  path: string
+}
+
+type ExportedNode = {
+  id: string,
+  parentId?: string,
+  owner: string,
+  status: string,
+  createdAt: string,
+  updatedAt: string,
+  tags?: string[]
+}
+
+export type VaultExportMetadata = {
+  version: number,
+  exportedAt: string, // ISO 8601 date
+  vault: {
+    id: string,
+    name: string,
+    description?: string,
+    public: boolean,
+    cacheOnly?: boolean,
+    owner: string,
+    createdAt: string,
+    updatedAt: string,
+    tags?: string[],
+    termsOfAccess?: string
+  },
+  memberships: Array<{
+    id: string,
+    address: string,
+    email?: string,
+    name?: string,
+    role: string,
+    status: string,
+    createdAt: string,
+    updatedAt: string
+  }>,
+  folders: Array<ExportedNode & { name: string, path: string }>,
+  stacks: Array<ExportedNode & {
+    name: string,
+    versions: Array<{
+      name: string,
+      type: string,
+      size: number,
+      owner: string,
+      createdAt: string,
+      resourceUri: string[],
+      numberOfChunks?: number,
+      udl?: UDL,
+      path?: string // set if the version file was exported
+    }>
+  }>,
+  memos: Array<ExportedNode & {
+    versions: Array<{
+      message: string,
+      owner: string,
+      createdAt: string,
+      reactions: Array<{ reaction: string, owner: string, createdAt: string }>
+    }>
+  }>
+}
+
+/**
+ * Assigns unique archive paths mirroring the vault folder hierarchy,
+ * nodes within folders that are not exported, ex: revoked, or within a folder cycle are placed in the root
+ * @param  {Folder[]} folders
+ * @param  {Stack[]} stacks
+ * @param  {boolean} allVersions include the previous stack versions
+ * @returns folder paths by folder id & stack version files to export
+ */
+export const getExportPaths = (folders: Folder[], stacks: Stack[], allVersions = false)
+  : { folders: Map<string, string>, files: VaultExportFile[] } => {
+  const byId = new Map(folders.map((folder) => [folder.id, folder] as [string, Folder]));
+  const names = new Map<string, Set<string>>([["", new Set([VAULT_EXPORT_METADATA_FILE])]]);
+  const paths = new Map<string, string>();
+
+  // folders whose path is being resolved, a parent cycle is placed in the root
+  const visiting = new Set<string>();
+
+  const getDirectory = (node: NodeLike): string => {
+    return node.parentId && byId.has(node.parentId) && !visiting.has(node.parentId)
+      ? getFolderPath(byId.get(node.parentId))
+      : "";
+  };
+  const getFolderPath = (folder: Folder): string => {
+    if (!paths.has(folder.id)) {
+      visiting.add(folder.id);
+      const directory = getDirectory(folder);
+      visiting.delete(folder.id);
+      paths.set(folder.id, uniquePath(names, directory, folder.name));
+    }
+    return paths.get(folder.id);
+  };
+  folders.forEach(getFolderPath);
+
+  const files = [] as VaultExportFile[];
+  for (const stack of stacks) {
+    const directory = getDirectory(stack);
+    const latest = stack.versions.length - 1;
+    stack.versions.forEach((version, index) => {
+      if (index === latest) {
+        files.push({ stackId: stack.id, index, version, path: uniquePath(names, directory, stack.name || version.name) });
+      } else if (allVersions) {
+        const { stem } = splitExtension(stack.name || version.name);
+        const { extension } = splitExtension(version.name || "");
+        files.push({ stackId: stack.id, index, version, path: uniquePath(names, directory, `${stem}.v${index}${extension}`) });
+      }
+    });
+  }
+  return { folders: paths, files };
+}
+
+/**
+ * @param  {Vault} vault decrypted vault
+ * @param  {Membership[]} memberships decrypted memberships
+ * @param  {{folders:Folder[],stacks:Stack[],memos:Memo[]}} nodes decrypted nodes
+ * @param  {{folders:Map<string,string>,files:Map<string,string>}} paths folder paths by id & exported file paths by stack version, ex: "stackId:0"
+ * @returns the content of vault.json
+ */
+export const toExportMetadata = (
+  vault: Vault,
+  memberships: Membership[],
+  nodes: { folders: Folder[], stacks: Stack[], memos: Memo[] },
+  paths: { folders: Map<string, string>, files: Map<string, string> }
+): VaultExportMetadata => {
+  return {
+    version: VAULT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    vault: {
+      id: vault.id,
+      name: vault.name,
+      description: vault.description,
+      public: vault.public,
+      cacheOnly: vault.cacheOnly,
+      owner: vault.owner,
+      createdAt: vault.createdAt,
+      updatedAt: vault.updatedAt,
+      tags: vault.tags,
+      termsOfAccess: vault.termsOfAccess
+    },
+    memberships: memberships.map((membership) => ({
+      id: membership.id,
+      address: membership.address,
+      email: membership.email,
+      name: membership.memberDetails?.name,
+      role: membership.role,
+      status: membership.status,
+      createdAt: membership.createdAt,
+      updatedAt: membership.updatedAt
+    })),
+    folders: nodes.folders.map((folder) => ({
+      ...toExportedNode(folder),
+      name: folder.name,
+      path: paths.folders.get(folder.id)
+    })),
+    stacks: nodes.stacks.map((stack) => ({
+      ...toExportedNode(stack),
+      name: stack.name,
+      versions: stack.versions.map((version, index) => ({
+        name: version.name,
+        type: version.type,
+        size: version.size,
+        owner: version.owner,
+        createdAt: version.createdAt,
+        resourceUri: version.resourceUri,
+        numberOfChunks: version.numberOfChunks,
+        udl: version.udl,
+        path: paths.files.get(`${stack.id}:${index}`)
+      }))
+    })),
+    memos: nodes.memos.map((memo) => ({
+      ...toExportedNode(memo),
+      versions: memo.versions.map((version) => ({
+        message: version.message,
+        owner: version.owner,
+        createdAt: version.createdAt,
+        reactions: (version.reactions || []).map((reaction) => ({
+          reaction: reaction.reaction,
+          owner: reaction.owner,
+          createdAt: reaction.createdAt
+        }))
+      }))
+    }))
+  };
+}
+
+const toExportedNode = (node: NodeLike): ExportedNode => ({
+  id: node.id,
+  parentId: node.parentId,
+  owner: node.owner,
+  status: node.status,
+  createdAt: node.createdAt,
+  updatedAt: node.updatedAt,
+  tags: node.tags
+});
+
+// appends a counter to the names already taken within the directory, ex: "report (1).pdf"
+const uniquePath = (names: Map<string, Set<string>>, directory: string, name: string): string => {
+  if (!names.has(directory)) {
+    names.set(directory, new Set());
+  }
+  const taken = names.get(directory);
+  const { stem, extension } = splitExtension(sanitizeName(name));
+  let unique = stem + extension;
+  for (let counter = 1; taken.has(unique.toLowerCase()); counter++) {
+    unique = `${stem} (${counter})${extension}`;
+  }
+  taken.add(unique.toLowerCase());
+  return directory ? directory + "/" + unique : unique;
+}
+
+// replaces the characters not allowed in the file names across platforms
+const sanitizeName = (name: string): string => {
+  const sanitized = (name || "").replace(/[\/\\:*?"<>|\u0000-\u001f]/g, "_").trim();
+  return !sanitized || sanitized === "." || sanitized === ".." ? "_" : sanitized;
+}
+
+const splitExtension = (name: string): { stem: string, extension: string } => {
+  const index = name.lastIndexOf(".");
+  return index > 0
+    ? { stem: name.substring(0, index), extension: name.substring(index) }
+    : { stem: name, extension: "" };
+}
@@ -6,21 +6,39 @@ import { Service } from "./service";
 import { Tag, Tags } from "../types/contract";
 import { ListOptions, VaultGetOptions } from "../types/query-options";
 import { Paginated } from "../types/paginated";
-import { IncorrectEncryptionKey } from "../errors/incorrect-encryption-key";
 import { MembershipService } from "./membership";
 import lodash from "lodash";
 import { NotFound } from "../errors/not-found";
 import { BadRequest } from "../errors/bad-request";
-import { handleListErrors, paginate } from "./common";
+import { handleListErrors, paginate, PageIterator } from "./common";
 import { ProfileService } from "./profile";
+import { NodeService } from "./node";
+import { ChangeEvent, toChangeEvents } from "./watch";
+import { Observable } from "rxjs";
+import { Membership } from "../types/membership";
+import { Folder, Memo, NodeLike, NodeType, Stack, StorageType } from "../types/node";
+import { Transaction } from "../types/transaction";
+import { PCacheBuster } from "@akord/ts-cacheable";
+import { CacheBusters } from "../types/cacheable";
+import { VAULT_FILTER_FIELDS, validateFilter, vaultFilter } from "./filter";
+import { VaultFilterFields } from "../types/filter";
+import { FolderService } from "./folder";
+import { StackService } from "./stack";
+import { MemoService } from "./memo";
+import { NoteTypes } from "./note";
+import { FileService, Hooks, createFileLike } from "./file";
+import { BatchService } from "./batch";
+import { digestChunks, digestLocalFile, DirectoryUploadOptions, DirectoryUploadResult, LocalDirectoryEntry, resolve, runBatches, walkDirectory } from "./directory-upload";
+import { createArchiveWriter } from "./archive";
+import { getExportPaths, toExportMetadata, VAULT_EXPORT_METADATA_FILE, VaultExportOptions, VaultExportResult } from "./vault-export";
 
 class VaultService extends Service {
   objectType = objectType.VAULT;
 
   defaultListOptions = {
     shouldDecrypt: true,
-    filter: { status: { eq: status.ACCEPTED } }
-  } as ListOptions;
+    filter: vaultFilter().eq("status", status.ACCEPTED).build()
+  } as ListOptions<VaultFilterFields>;
 
   defaultGetOptions = {
     shouldDecrypt: true,
@@ -53,11 +71,12 @@ class VaultService extends Service {
    * @param  {ListOptions} options
    * @returns Promise with paginated user vaults
    */
-  public async list(options: ListOptions = this.defaultListOptions): Promise<Paginated<Vault>> {
+  public async list(options: ListOptions<VaultFilterFields> = this.defaultListOptions): Promise<Paginated<Vault>> {
     const listOptions = {
       ...this.defaultListOptions,
       ...options
     }
+    validateFilter(listOptions.filter, VAULT_FILTER_FIELDS);
     const response = await this.api.getVaults(listOptions);
     const promises = response.items
       .map(async (vaultProto: Vault) => {
@@ -75,13 +94,32 @@ class VaultService extends Service {
    * @param  {ListOptions} options
    * @returns Promise with currently authenticated user vaults
    */
-  public async listAll(options: ListOptions = this.defaultListOptions): Promise<Array<Vault>> {
+  public async listAll(options: ListOptions<VaultFilterFields> = this.defaultListOptions): Promise<Array<Vault>> {
     const list = async (listOptions: ListOptions) => {
       return await this.list(listOptions);
     }
     return await paginate<Vault>(list, options);
   }
 
+  /**
+   * @param  {ListOptions} options
+   * @returns async iterable over currently authenticated user vaults, decrypted page by page
+   */
+  public iterate(options: ListOptions<VaultFilterFields> = this.defaultListOptions): PageIterator<Vault> {
+    return new PageIterator<Vault>((listOptions: ListOptions) => this.list(listOptions), options);
+  }
+
+  /**
+   * Watch the changes within given vault: vault updates, memberships & nodes
+   * @param  {string} vaultId
+   * @returns Observable of decrypted change events
+   */
+  public watch(vaultId: string): Observable<ChangeEvent<Vault | Membership | NodeLike>> {
+    return this.getChangeFeed()
+      .transactions(vaultId)
+      .pipe(toChangeEvents((transaction) => this.getChangedObject(transaction), this.logger));
+  }
+
   /**
    * @param  {string} name new vault name
    * @param  {VaultCreateOptions} options public/private, terms of access, etc.
@@ -164,11 +202,251 @@ class VaultService extends Service {
     return { vaultId, membershipId, transactionId: id, object: vault };
   }
 
+  /**
+   * Deep clone of the vault: the folder hierarchy & stacks with all their versions,
+   * the files are decrypted with the source vault keys & encrypted with the new vault keys
+   * @param  {string} sourceVaultId
+   * @param  {string} name new vault name
+   * @param  {VaultCloneOptions} [options] public/private, memos & notes, progress hook, cancel hook, etc.
+   * @returns Promise with new vault id, mapping of the source node ids to the new node ids & errors of the nodes that could not be cloned
+   */
+  public async clone(sourceVaultId: string, name: string, options: VaultCloneOptions = {}): Promise<VaultCloneResult> {
+    const source = await this.get(sourceVaultId);
+    const errors = [] as VaultCloneResult["errors"];
+    const folders = await this.listNodes(new FolderService(this.wallet, this.api), sourceVaultId, errors);
+    const stacks = (await this.listNodes(new StackService(this.wallet, this.api), sourceVaultId, errors))
+      .filter((stack) => options.includeNotes || !Object.values(NoteTypes).includes(stack.getVersion().type as NoteTypes));
+    const memos = options.includeMemos
+      ? await this.listNodes(new MemoService(this.wallet, this.api), sourceVaultId, errors)
+      : [];
+
+    const { vaultId, membershipId, transactionId, object } = await this.create(name, {
+      public: options.public,
+      cacheOnly: options.cacheOnly,
+      termsOfAccess: options.termsOfAccess !== undefined ? options.termsOfAccess : source.termsOfAccess,
+      description: options.description !== undefined ? options.description : source.description,
+      tags: options.tags || source.tags || [],
+      arweaveTags: options.arweaveTags
+    });
+
+    // parents are cloned before their children
+    const nodes = [...sortByHierarchy(folders), ...stacks, ...memos];
+    const folderIds = new Set(folders.map((folder) => folder.id));
+    const mapping = {} as VaultCloneResult["mapping"];
+    let processed = 0;
+    for (const node of nodes) {
+      if (options.cancelHook?.signal.aborted) {
+        break;
+      }
+      try {
+        const parentId = getClonedParentId(node, folderIds, mapping);
+        mapping[node.id] = await this.cloneNode(vaultId, node, parentId, options);
+      } catch (error) {
+        if (options.cancelHook?.signal.aborted) {
+          break;
+        }
+        this.logger.debug("Could not clone the node", { nodeId: node.id, error: error });
+        errors.push({ id: node.id, error });
+      }
+      processed += 1;
+      if (options.progressHook) {
+        options.progressHook(Math.round(processed / nodes.length * 100), { id: node.id, processed, total: nodes.length });
+      }
+    }
+    return { vaultId, membershipId, transactionId, object, mapping, errors, cancelled: nodes.length - processed };
+  }
+
+  /**
+   * Exports the vault to a local archive: decrypted files within their folder paths
+   * & vault.json with the metadata of the vault, memberships, folders, stacks & memos.
+   * The files are streamed chunk by chunk, Node.js only
+   * @param  {string} vaultId
+   * @param  {VaultExportOptions} options format, path, progress hook, cancel hook, etc.
+   * @returns Promise with the number of exported files & errors of the nodes that could not be exported
+   */
+  public async export(vaultId: string, options: VaultExportOptions): Promise<VaultExportResult> {
+    if (!options?.path) {
+      throw new BadRequest("Missing the export path.");
+    }
+    const vault = await this.get(vaultId);
+    const errors = [] as VaultExportResult["errors"];
+    const folders = await this.listNodes(new FolderService(this.wallet, this.api), vaultId, errors);
+    const stacks = await this.listNodes(new StackService(this.wallet, this.api), vaultId, errors);
+    const memos = await this.listNodes(new MemoService(this.wallet, this.api), vaultId, errors);
+    const memberships = await new MembershipService(this.wallet, this.api).listAll(vaultId, { filter: undefined });
+
+    const paths = getExportPaths(folders, stacks, options.allVersions);
+    // the archive headers precede the file contents, the versions without the size are reported instead
+    const [files, unsized] = lodash.partition(paths.files, (file) => Number.isInteger(file.version.size));
+    unsized.forEach((file) => errors.push({
+      id: file.stackId,
+      error: new BadRequest(`Missing the file size of the stack version: ${file.index}`)
+    }));
+    const exported = new Map<string, string>();
+    const fileService = new FileService(this.wallet, this.api);
+    const entries = [...paths.folders.values()].map((path) => ({ path: path.replace(/\/?$/, "/"), size: 0 }))
+      .concat(files.map((file) => ({ path: file.path, size: file.version.size })))
+      .concat([{ path: VAULT_EXPORT_METADATA_FILE, size: 0 }]);
+    const writer = await createArchiveWriter(options.format || "zip", options.path, entries);
+    let processed = 0;
+    try {
+      for (const folder of folders) {
+        await writer.addDirectory(paths.folders.get(folder.id), parseInt(folder.updatedAt));
+      }
+      for (const file of files) {
+        if (options.cancelHook?.signal.aborted) {
+          break;
+        }
+        try {
+          const chunks = fileService.chunks(file.version.getUri(StorageType.S3), vaultId, {
+            isChunked: !!file.version.numberOfChunks,
+            numberOfChunks: file.version.numberOfChunks,
+            cancelHook: options.cancelHook
+          });
+          await writer.addFile(file.path, file.version.size, chunks, parseInt(file.version.createdAt));
+          exported.set(`${file.stackId}:${file.index}`, file.path);
+        } catch (error) {
+          if (options.cancelHook?.signal.aborted) {
+            break;
+          }
+          this.logger.debug("Could not export the file", { stackId: file.stackId, index: file.index, error: error });
+          errors.push({ id: file.stackId, error });
+        }
+        processed += 1;
+        if (options.progressHook) {
+          options.progressHook(Math.round(processed / files.length * 100), { id: file.stackId, processed, total: files.length });
+        }
+      }
+      const metadata = toExportMetadata(vault, memberships, { folders, stacks, memos }, { folders: paths.folders, files: exported });
+      const data = new Uint8Array(Buffer.from(JSON.stringify(metadata, null, 2)));
+      await writer.addFile(VAULT_EXPORT_METADATA_FILE, data.length, [data]);
+    } finally {
+      await writer.close();
+    }
+    return { path: options.path, files: exported.size, errors, cancelled: files.length - processed };
+  }
+
+  /**
+   * Uploads the local directory recursively keeping the folder structure (Node.js only):
+   * the folders are created first, then the files are batch created as stacks within them
+   * @param  {string} vaultId
+   * @param  {string} localPath local directory path, its contents are uploaded into the parent folder
+   * @param  {DirectoryUploadOptions} [options] parent id, ignore globs, concurrency, progress hook, cancel hook, etc.
+   * @returns Promise with the folder ids by directory path & the upload report of every file
+   */
+  public async uploadDirectory(vaultId: string, localPath: string, options: DirectoryUploadOptions = {}): Promise<DirectoryUploadResult> {
+    const { directories, files } = await walkDirectory(localPath, options.ignore);
+    const key = (parentId: string, name: string) => (parentId || "") + "/" + name;
+
+    const concurrency = options.concurrency || 5;
+
+    // existing folders are reused when skipping the existing files, so that the upload can be resumed
+    const existingFolders = options.skipExisting ? await new FolderService(this.wallet, this.api).listAll(vaultId) : [];
+    const folderIds = new Map(existingFolders.map((folder) => [key(folder.parentId, folder.name), folder.id] as [string, string]));
+    const folders = {} as DirectoryUploadResult["folders"];
+    const getFolderId = (path: string) => path ? folders[path] : options.parentId;
+    // the folders are created level by level, the parent folders first
+    const levels = lodash.groupBy(directories, (directory) => directory.path.split("/").length);
+    for (const depth of Object.keys(levels).map(Number).sort((a, b) => a - b)) {
+      await runBatches(levels[depth].map((directory) => [directory]), concurrency, async ([directory]) => {
+        const parentId = getFolderId(directory.parent);
+        folders[directory.path] = folderIds.get(key(parentId, directory.name))
+          || (await new FolderService(this.wallet, this.api).create(vaultId, directory.name, { parentId })).folderId;
+      });
+    }
+    // keep the folders in the walk order
+    const orderedFolders = {} as DirectoryUploadResult["folders"];
+    directories.forEach((directory) => orderedFolders[directory.path] = folders[directory.path]);
+
+    const results = new Map<string, DirectoryUploadResult["files"][0]>();
+    // file path => existing stack with a different content, uploaded as a new revision
+    const revisions = new Map<string, Stack>();
+    let pending = files;
+    if (options.skipExisting) {
+      const stacks = await new StackService(this.wallet, this.api).listAll(vaultId);
+      const existingStacks = new Map(stacks.map((stack) => [key(stack.parentId, stack.name), stack] as [string, Stack]));
+      await runBatches(files.map((file) => [file]), concurrency, async ([file]) => {
+        const stack = existingStacks.get(key(getFolderId(file.parent), file.name));
+        if (!stack) {
+          return;
+        }
+        if (await this.hasSameContent(vaultId, stack, resolve(localPath, file.path), file.size)) {
+          results.set(file.path, { path: file.path, status: "skipped", stackId: stack.id });
+        } else {
+          revisions.set(file.path, stack);
+        }
+      });
+      pending = files.filter((file) => !results.has(file.path));
+    }
+
+    // the stack names have to be unique within a batch to match the batch results
+    const batches = [] as LocalDirectoryEntry[][];
+    const newFiles = pending.filter((file) => !revisions.has(file.path));
+    for (const group of Object.values(lodash.groupBy(newFiles, (file) => file.parent))) {
+      batches.push(...lodash.chunk(group, concurrency));
+    }
+    pending.filter((file) => revisions.has(file.path)).forEach((file) => batches.push([file]));
+
+    const total = pending.reduce((sum, file) => sum + file.size, 0);
+    const uploaded = new Map<LocalDirectoryEntry[], number>();
+    const batchProgressHook = (batch: LocalDirectoryEntry[], size: number) => options.progressHook && ((progress: number) => {
+      uploaded.set(batch, progress / 100 * size);
+      const bytes = [...uploaded.values()].reduce((sum, batchBytes) => sum + batchBytes, 0);
+      options.progressHook(total ? Math.round(bytes / total * 100) : 100);
+    });
+    await runBatches(batches, concurrency, async (batch) => {
+      if (options.cancelHook?.signal.aborted) {
+        return;
+      }
+      const size = batch.reduce((sum, file) => sum + file.size, 0);
+      const progressHook = batchProgressHook(batch, size);
+      const stack = revisions.get(batch[0].path);
+      if (stack) {
+        const [file] = batch;
+        try {
+          const fileLike = await createFileLike(resolve(localPath, file.path));
+          await new StackService(this.wallet, this.api).uploadRevision(stack.id, fileLike, { cancelHook: options.cancelHook, progressHook });
+          results.set(file.path, { path: file.path, status: "updated", stackId: stack.id });
+        } catch (error) {
+          if (!options.cancelHook?.signal.aborted) {
+            results.set(file.path, { path: file.path, status: "failed", stackId: stack.id, error });
+          }
+        }
+        return;
+      }
+      const items = await Promise.all(batch.map(async (file) => ({
+        file: await createFileLike(resolve(localPath, file.path)),
+        name: file.name,
+        options: { parentId: getFolderId(file.parent) }
+      })));
+      const { data, errors } = await new BatchService(this.wallet, this.api).stackCreate(vaultId, items, {
+        cancelHook: options.cancelHook,
+        progressHook
+      });
+      for (const file of batch) {
+        const created = data.find((item) => item.object.name === file.name);
+        const failed = errors.find((error) => error.name === file.name);
+        if (created) {
+          results.set(file.path, { path: file.path, status: "created", stackId: created.stackId });
+        } else if (failed) {
+          results.set(file.path, { path: file.path, status: "failed", error: failed.error });
+        }
+      }
+    });
+    return {
+      folders: orderedFolders,
+      files: files.map((file) => results.get(file.path) || { path: file.path, status: "cancelled" })
+    };
+  }
+
   /**
    * @param  {string} vaultId
    * @param  {VaultUpdateOptions} options name, description & tags
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async update(vaultId: string, options: VaultUpdateOptions): Promise<VaultUpdateResult> {
     if (!options.name && !options.tags && !options.description) {
       throw new BadRequest("Nothing to update");
@@ -208,6 +486,9 @@ class VaultService extends Service {
    * @param name new vault name
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async rename(vaultId: string, name: string): Promise<VaultUpdateResult> {
     const service = new VaultService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -234,6 +515,9 @@ class VaultService extends Service {
    * @param tags tags to be added
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async addTags(vaultId: string, tags: string[]): Promise<VaultUpdateResult> {
     const service = new VaultService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -269,6 +553,9 @@ class VaultService extends Service {
    * @param tags tags to be removed
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async removeTags(vaultId: string, tags: string[]): Promise<VaultUpdateResult> {
     const service = new VaultService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -300,6 +587,9 @@ class VaultService extends Service {
    * @param  {string} vaultId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async archive(vaultId: string): Promise<VaultUpdateResult> {
     const service = new VaultService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -319,6 +609,9 @@ class VaultService extends Service {
    * @param  {string} vaultId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async restore(vaultId: string): Promise<VaultUpdateResult> {
     const service = new VaultService(this.wallet, this.api);
     await service.setVaultContext(vaultId);
@@ -338,6 +631,9 @@ class VaultService extends Service {
    * @param  {string} vaultId
    * @returns Promise with corresponding transaction id
    */
+  @PCacheBuster({
+    cacheBusterNotifier: CacheBusters.vaults
+  })
   public async delete(vaultId: string): Promise<{ transactionId: string }> {
     this.api.deleteVault(vaultId);
     return { transactionId: "" };
@@ -349,16 +645,86 @@ class VaultService extends Service {
     this.setObject(this.vault);
   }
 
+  private async getChangedObject(transaction: Transaction): Promise<Vault | Membership | NodeLike> {
+    if (transaction.function.startsWith("vault:")) {
+      return await this.get(transaction.vaultId);
+    } else if (transaction.function.startsWith("membership:")) {
+      return await new MembershipService(this.wallet, this.api).get(transaction.objectId, { vaultId: transaction.vaultId });
+    } else {
+      const service = new NodeService<NodeLike>(this.wallet, this.api);
+      service.objectType = transaction.objectType as NodeType;
+      return await service.get(transaction.objectId, { vaultId: transaction.vaultId });
+    }
+  }
+
   protected async processVault(object: Vault, shouldDecrypt: boolean, keys?: EncryptedKeys[]): Promise<Vault> {
     const vault = new Vault(object, keys);
     if (shouldDecrypt && !vault.public) {
       try {
         await vault.decrypt();
       } catch (error) {
-        throw new IncorrectEncryptionKey(error);
+        throw this.incorrectEncryptionKey(error, object.id);
       }
     }
-    return vault;
+    return await this.verifyState(vault, object);
+  }
+
+  private async listNodes<T>(service: NodeService<T>, vaultId: string, errors: VaultCloneResult["errors"]): Promise<Array<T>> {
+    const iterator = service.iterate(vaultId);
+    const nodes = [] as Array<T>;
+    for await (const node of iterator) {
+      nodes.push(node);
+    }
+    errors.push(...iterator.errors);
+    return nodes;
+  }
+
+  // compares the latest stack version with the local file, by size first & then by the digest of the decrypted content
+  private async hasSameContent(vaultId: string, stack: Stack, path: string, size: number): Promise<boolean> {
+    const version = stack.getVersion();
+    if (!version || version.size !== size) {
+      return false;
+    }
+    const chunks = new FileService(this.wallet, this.api).chunks(version.getUri(StorageType.S3), vaultId, {
+      isChunked: !!version.numberOfChunks,
+      numberOfChunks: version.numberOfChunks
+    });
+    return await digestLocalFile(path) === await digestChunks(chunks);
+  }
+
+  // returns the id of the new node
+  private async cloneNode(vaultId: string, node: NodeLike, parentId: string, options: VaultCloneOptions): Promise<string> {
+    if (node instanceof Folder) {
+      const { folderId } = await new FolderService(this.wallet, this.api).create(vaultId, node.name, { parentId, tags: node.tags });
+      return folderId;
+    } else if (node instanceof Stack) {
+      const service = new StackService(this.wallet, this.api);
+      const fileService = new FileService(this.wallet, this.api);
+      let stackId: string;
+      for (const version of node.versions) {
+        // read chunk by chunk as on export, the decrypted chunks are uploaded as the file parts without concatenating them
+        const data = [] as Uint8Array[];
+        for await (const chunk of fileService.chunks(version.getUri(StorageType.S3), node.vaultId, {
+          isChunked: !!version.numberOfChunks,
+          numberOfChunks: version.numberOfChunks,
+          cancelHook: options.cancelHook
+        })) {
+          data.push(chunk);
+        }
+        const fileOptions = { name: version.name, mimeType: version.type, cancelHook: options.cancelHook };
+        if (!stackId) {
+          stackId = (await service.create(vaultId, data, node.name, { ...fileOptions, parentId, tags: node.tags })).stackId;
+        } else {
+          await service.uploadRevision(stackId, data, fileOptions);
+        }
+      }
+      return stackId;
+    } else if (node instanceof Memo) {
+      // the memo is cloned with its latest message only
+      const { memoId } = await new MemoService(this.wallet, this.api).create(vaultId, node.getVersion().message, { parentId, tags: node.tags });
+      return memoId;
+    }
+    throw new BadRequest("Given node cannot be cloned: " + node.id);
   }
 
   private getTagIndex(tags: string[], tag: string): number {
@@ -379,6 +745,11 @@ export type VaultCreateOptions = {
   arweaveTags?: Tags
 }
 
+export type VaultCloneOptions = VaultCreateOptions & Hooks & {
+  includeMemos?: boolean, // the memos are cloned with their latest message only, without the previous versions & the reactions (default to false)
+  includeNotes?: boolean // default to false
+}
+
 export type VaultUpdateOptions = {
   name?: string,
   description?: string,
@@ -392,11 +763,47 @@ type VaultCreateResult = {
   object: Vault
 }
 
+type VaultCloneResult = VaultCreateResult & {
+  mapping: { [sourceNodeId: string]: string }, // source node id => new node id
+  errors: Array<{ id: string, error: Error }>, // source nodes that could not be listed or cloned
+  cancelled: number // number of nodes not cloned due to the cancellation
+}
+
 type VaultUpdateResult = {
   transactionId: string,
   object: Vault
 }
 
+// orders the folders so that the parents precede their children
+const sortByHierarchy = (folders: Folder[]): Folder[] => {
+  const byId = new Map(folders.map((folder) => [folder.id, folder] as [string, Folder]));
+  const sorted = [] as Folder[];
+  const visited = new Set<string>();
+  const visit = (folder: Folder) => {
+    if (visited.has(folder.id)) {
+      return;
+    }
+    visited.add(folder.id);
+    if (folder.parentId && byId.has(folder.parentId)) {
+      visit(byId.get(folder.parentId));
+    }
+    sorted.push(folder);
+  };
+  folders.forEach(visit);
+  return sorted;
+}
+
+// nodes within folders that are not cloned, ex: revoked, are moved to the root
+const getClonedParentId = (node: NodeLike, folderIds: Set<string>, mapping: VaultCloneResult["mapping"]): string => {
+  if (!node.parentId || !folderIds.has(node.parentId)) {
+    return undefined;
+  }
+  if (!mapping[node.parentId]) {
+    throw new NotFound("Could not clone the parent folder: " + node.parentId);
+  }
+  return mapping[node.parentId];
+}
+
 export {
   VaultService
 }
\ No newline at end of file
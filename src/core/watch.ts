@@ -0,0 +1,166 @@
+import { concatMap, distinct, Observable, OperatorFunction, share } from "rxjs";
+import { Api } from "../api/api";
+import { functions } from "../constants";
+import { Logger } from "../logger";
+import { ObjectType } from "../types/object";
+import { Transaction } from "../types/transaction";
+import { ListOptions } from "../types/query-options";
+import { paginate } from "./common";
+
+export const DEFAULT_POLLING_INTERVAL = 5000;
+
+export type ChangeEventType = "created" | "updated" | "moved" | "revoked" | "restored" | "deleted" | "membership-changed";
+
+export type ChangeEvent<T> = {
+  type: ChangeEventType,
+  function: functions,
+  transactionId: string,
+  vaultId: string,
+  objectId: string,
+  objectType: ObjectType,
+  address: string, // address of the member who made the change
+  postedAt: string,
+  object?: T // decrypted object after the change, unset if it's no longer accessible
+}
+
+/**
+ * Source of the vault transactions for the watch subscriptions
+ * Implement it to plug in a push channel (ex: WebSocket or SSE),
+ * emitting the same transaction more than once is allowed, the events are deduplicated by transaction id
+ */
+export interface ChangeFeed {
+  transactions(vaultId: string): Observable<Transaction>
+}
+
+/**
+ * Default change feed polling the vault transactions,
+ * emits only the transactions posted after the subscription, each poll lists the transactions posted since the previous one
+ */
+export class PollingChangeFeed implements ChangeFeed {
+  private api: Api;
+  private interval: number;
+  private feeds = new Map<string, Observable<Transaction>>();
+
+  /**
+   * @param  {Api} api
+   * @param  {number} [interval] polling interval in ms (default to 5000)
+   */
+  constructor(api: Api, interval: number = DEFAULT_POLLING_INTERVAL) {
+    this.api = api;
+    this.interval = interval;
+  }
+
+  transactions(vaultId: string): Observable<Transaction> {
+    // share a single polling loop between the subscriptions to the same vault
+    if (!this.feeds.has(vaultId)) {
+      this.feeds.set(vaultId, this.poll(vaultId).pipe(share()));
+    }
+    return this.feeds.get(vaultId);
+  }
+
+  private poll(vaultId: string): Observable<Transaction> {
+    return new Observable<Transaction>((subscriber) => {
+      // the latest seen transactions, starts at the subscription time so that no transaction posted since is missed,
+      // the next polls fetch only the transactions posted since
+      let cursor: { postedAt: string, ids: string[] } = { postedAt: JSON.stringify(Date.now()), ids: [] };
+      let timeout: ReturnType<typeof setTimeout>;
+      let stopped = false;
+      const poll = async () => {
+        try {
+          const list = async (options: ListOptions) => await this.api.getTransactions(vaultId, options);
+          // transactions posted within the same ms as the cursor are listed again, skipped by id
+          const transactions = (await paginate<Transaction>(list, {
+            filter: { postedAt: { gt: JSON.stringify(parseInt(cursor.postedAt) - 1) } }
+          }))
+            .filter((transaction) => !cursor.ids.includes(transaction.id));
+          transactions.forEach((transaction) => subscriber.next(transaction));
+          cursor = moveCursor(cursor, transactions);
+        } catch (error) {
+          this.api.logger.warn("Could not poll vault transactions", { vaultId: vaultId, error: error });
+        }
+        if (!stopped) {
+          timeout = setTimeout(poll, this.interval);
+        }
+      }
+      poll();
+      return () => {
+        stopped = true;
+        clearTimeout(timeout);
+      }
+    });
+  }
+}
+
+const moveCursor = (cursor: { postedAt: string, ids: string[] }, transactions: Transaction[])
+  : { postedAt: string, ids: string[] } => {
+  if (!transactions.length) {
+    return cursor;
+  }
+  const latest = transactions
+    .map((transaction) => transaction.postedAt)
+    .reduce((latest, postedAt) => parseInt(postedAt) > parseInt(latest) ? postedAt : latest);
+  const ids = transactions
+    .filter((transaction) => transaction.postedAt === latest)
+    .map((transaction) => transaction.id);
+  return { postedAt: latest, ids: cursor.postedAt === latest ? cursor.ids.concat(ids) : ids };
+}
+
+/**
+ * Maps vault transactions into change events, deduplicated by transaction id
+ * @param  {(transaction:Transaction)=>Promise<T>} resolve fetches & decrypts the changed object
+ * @param  {Logger} [logger]
+ */
+export const toChangeEvents = <T>(
+  resolve: (transaction: Transaction) => Promise<T>,
+  logger: Logger = Logger.default
+): OperatorFunction<Transaction, ChangeEvent<T>> => {
+  return (transactions) => transactions.pipe(
+    distinct((transaction) => transaction.id),
+    concatMap(async (transaction) => {
+      const event = {
+        type: getChangeEventType(transaction.function),
+        function: transaction.function,
+        transactionId: transaction.id,
+        vaultId: transaction.vaultId,
+        objectId: transaction.objectId,
+        objectType: transaction.objectType,
+        address: transaction.address,
+        postedAt: transaction.postedAt
+      } as ChangeEvent<T>;
+      try {
+        event.object = await resolve(transaction);
+      } catch (error) {
+        logger.debug("Could not resolve the changed object", {
+          vaultId: transaction.vaultId,
+          objectId: transaction.objectId,
+          transactionId: transaction.id,
+          error: error
+        });
+      }
+      return event;
+    })
+  );
+}
+
+const getChangeEventType = (transactionFunction: functions): ChangeEventType => {
+  switch (transactionFunction) {
+    case functions.VAULT_CREATE:
+    case functions.NODE_CREATE:
+      return "created";
+    case functions.VAULT_UPDATE:
+    case functions.NODE_UPDATE:
+      return "updated";
+    case functions.NODE_MOVE:
+      return "moved";
+    case functions.VAULT_ARCHIVE:
+    case functions.NODE_REVOKE:
+      return "revoked";
+    case functions.VAULT_RESTORE:
+    case functions.NODE_RESTORE:
+      return "restored";
+    case functions.NODE_DELETE:
+      return "deleted";
+    default:
+      return "membership-changed";
+  }
+}
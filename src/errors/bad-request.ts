@@ -1,9 +1,10 @@
-import { AkordError } from "./error";
+import { AkordError, ErrorContext } from "./error";
 
 export class BadRequest extends AkordError {
   statusCode: number = 400;
+  code: string = "BAD_REQUEST";
 
-  constructor(message: string, error?: Error) {
-    super(message, error);
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
   }
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { AkordError, ErrorContext } from "./error";
+
+// the request conflicts with the current state of the resource
+export class Conflict extends AkordError {
+  statusCode: number = 409;
+  code: string = "CONFLICT";
+
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
+  }
+}
\ No newline at end of file
@@ -1,23 +1,34 @@
 import { BadRequest } from "./bad-request";
+import { Conflict } from "./conflict";
+import { ErrorContext } from "./error";
 import { Forbidden } from "./forbidden";
+import { InsufficientStorage } from "./insufficient-storage";
 import { InternalError } from "./internal-error";
 import { NotFound } from "./not-found";
+import { PayloadTooLarge } from "./payload-too-large";
 import { TooManyRequests } from "./too-many-requests";
 import { Unauthorized } from "./unauthorized";
 
-export const throwError = (status: number, message?: string, error?: Error) => {
+export const throwError = (status: number, message?: string, error?: Error, context?: ErrorContext) => {
   switch (status) {
     case 400:
-      throw new BadRequest(message, error);
+      throw new BadRequest(message, error, context);
     case 401:
-      throw new Unauthorized(message, error);
+      throw new Unauthorized(message, error, context);
+    case 402:
+    case 507:
+      throw new InsufficientStorage(message || "Insufficient storage balance.", error, context);
     case 403:
-      throw new Forbidden(message, error);
+      throw new Forbidden(message, error, context);
     case 404:
-      throw new NotFound(message, error);
+      throw new NotFound(message, error, context);
+    case 409:
+      throw new Conflict(message, error, context);
+    case 413:
+      throw new PayloadTooLarge(message || "Payload too large.", error, context);
     case 429:
-      throw new TooManyRequests(message, error);
+      throw new TooManyRequests(message, error, context);
     default:
-      throw new InternalError("Internal error. Please try again or contact Akord support.", error);
+      throw new InternalError(message || "Internal error. Please try again or contact Akord support.", error, context);
   }
-}
\ No newline at end of file
+}
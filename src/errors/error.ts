@@ -1,12 +1,48 @@
-import { Logger } from "../logger";
+export type ErrorContext = {
+  method?: string,
+  url?: string,
+  vaultId?: string,
+  objectId?: string
+}
+
+// query params carrying credentials
+const SENSITIVE_PARAMS = /auth|token|key|secret|signature|password|credential/i;
 
 export class AkordError extends Error {
   statusCode: number;
+  code: string = "AKORD_ERROR"; // machine-readable error code
+  retryable: boolean = false; // true if repeating the request may succeed
   requestId: string;
+  method: string;
+  url: string; // request url with credentials redacted
+  vaultId: string;
+  objectId: string;
 
-  constructor(message: string, error?: Error) {
+  constructor(message: string, error?: Error, context: ErrorContext = {}) {
     super(message);
     this.requestId = (<any>error)?.response?.headers?.['request-id'];
-    Logger.log(error);
+    this.method = context.method?.toUpperCase();
+    this.url = redactUrl(context.url);
+    this.vaultId = context.vaultId;
+    this.objectId = context.objectId;
+  }
+}
+
+const redactUrl = (url: string): string => {
+  if (!url) {
+    return url;
+  }
+  try {
+    const parsedUrl = new URL(url);
+    if (parsedUrl.username || parsedUrl.password) {
+      parsedUrl.username = "redacted";
+      parsedUrl.password = "";
+    }
+    Array.from(parsedUrl.searchParams.keys())
+      .filter((name) => SENSITIVE_PARAMS.test(name))
+      .forEach((name) => parsedUrl.searchParams.set(name, "redacted"));
+    return parsedUrl.toString();
+  } catch (error) {
+    return url.split("?")[0];
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,10 @@
-import { AkordError } from "./error";
+import { AkordError, ErrorContext } from "./error";
 
 export class Forbidden extends AkordError {
   statusCode: number = 403;
+  code: string = "FORBIDDEN";
 
-  constructor(message: string, error?: Error) {
-    super(message, error);
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
   }
 }
\ No newline at end of file
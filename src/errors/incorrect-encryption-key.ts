@@ -2,8 +2,9 @@ import { AkordError } from "./error";
 
 export class IncorrectEncryptionKey extends AkordError {
   statusCode: number = 409;
+  code: string = "INCORRECT_ENCRYPTION_KEY";
 
   constructor(error?: Error) {
     super("Incorrect encryption key.", error);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+export * from "./error";
+export * from "./bad-request";
+export * from "./unauthorized";
+export * from "./insufficient-storage";
+export * from "./forbidden";
+export * from "./not-found";
+export * from "./conflict";
+export * from "./payload-too-large";
+export * from "./too-many-requests";
+export * from "./internal-error";
+export * from "./incorrect-encryption-key";
+export * from "./integrity-error";
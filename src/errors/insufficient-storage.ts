@@ -0,0 +1,12 @@
+import { AkordError, ErrorContext } from "./error";
+
+// not enough storage balance to complete the upload (402 Payment Required or 507 Insufficient Storage)
+export class InsufficientStorage extends AkordError {
+  statusCode: number = 402;
+  code: string = "INSUFFICIENT_STORAGE";
+
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
+    this.statusCode = (<any>error)?.response?.status || this.statusCode;
+  }
+}
\ No newline at end of file
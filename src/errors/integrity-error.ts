@@ -0,0 +1,10 @@
+import { AkordError, ErrorContext } from "./error";
+
+export class IntegrityError extends AkordError {
+  statusCode: number = 422;
+  code: string = "INTEGRITY_ERROR";
+
+  constructor(message: string, context?: ErrorContext) {
+    super(message, undefined, context);
+  }
+}
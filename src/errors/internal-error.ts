@@ -1,9 +1,22 @@
-import { AkordError } from "./error";
+import { AkordError, ErrorContext } from "./error";
+import { isCancel } from "../api/transport";
 
 export class InternalError extends AkordError {
   statusCode: number = 500;
+  code: string = "INTERNAL_ERROR";
 
-  constructor(message: string, error?: Error) {
-    super(message, error);
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
+    const status = (<any>error)?.response?.status;
+    this.statusCode = status || this.statusCode;
+    this.retryable = isRetryable(status, error);
   }
-}
\ No newline at end of file
+}
+
+// network failures without response, timeouts & server side errors are transient, cancelled requests are not
+const isRetryable = (status: number, error?: Error): boolean => {
+  if (!status) {
+    return !isCancel(error);
+  }
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
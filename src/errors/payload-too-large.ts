@@ -0,0 +1,10 @@
+import { AkordError, ErrorContext } from "./error";
+
+export class PayloadTooLarge extends AkordError {
+  statusCode: number = 413;
+  code: string = "PAYLOAD_TOO_LARGE";
+
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
+  }
+}
\ No newline at end of file
@@ -1,9 +1,11 @@
-import { AkordError } from "./error";
+import { AkordError, ErrorContext } from "./error";
 
 export class TooManyRequests extends AkordError {
   statusCode: number = 429;
+  code: string = "TOO_MANY_REQUESTS";
+  retryable: boolean = true;
 
-  constructor(message: string, error?: Error) {
-    super(message, error);
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
   }
 }
\ No newline at end of file
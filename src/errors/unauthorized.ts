@@ -1,9 +1,10 @@
-import { AkordError } from "./error";
+import { AkordError, ErrorContext } from "./error";
 
 export class Unauthorized extends AkordError {
   statusCode: number = 401;
+  code: string = "UNAUTHORIZED";
 
-  constructor(message: string, error?: Error) {
-    super(message, error);
+  constructor(message: string, error?: Error, context?: ErrorContext) {
+    super(message, error, context);
   }
 }
\ No newline at end of file
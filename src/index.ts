@@ -2,6 +2,16 @@ import { Akord } from "./akord";
 import { ClientConfig } from "./config";
 import { Wallet } from "@akord/crypto";
 import { Auth } from "@akord/akord-auth";
+import { MemoryApi } from "./api/memory-api";
+import { AxiosTransport } from "./api/axios-transport";
+import { FetchTransport } from "./api/fetch-transport";
+import { PollingChangeFeed } from "./core/watch";
+import { Logger, ConsoleSink, JsonLinesSink } from "./logger";
+import { ArweaveClient } from "./arweave";
+import { ArweaveQuery, getTagValue } from "./arweave-query";
+import { ContractEvaluator, diffContractState, toContractInteraction } from "./core/contract-evaluator";
+import { PageIterator } from "./core/common";
+import { FilterBuilder, membershipFilter, nodeFilter, vaultFilter } from "./core/filter";
 
 /**
  * @param  {Wallet} wallet
@@ -14,4 +24,5 @@ Akord.init = async function (wallet: Wallet, config: ClientConfig = {}): Promise
 };
 
 export * from "./types";
-export { Akord, Auth };
+export * from "./errors";
+export { Akord, Auth, MemoryApi, AxiosTransport, FetchTransport, PollingChangeFeed, Logger, ConsoleSink, JsonLinesSink, ArweaveClient, ArweaveQuery, getTagValue, ContractEvaluator, diffContractState, toContractInteraction, PageIterator, FilterBuilder, nodeFilter, membershipFilter, vaultFilter };
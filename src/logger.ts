@@ -1,9 +1,172 @@
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "silent";
+
+const LOG_LEVELS = ["trace", "debug", "info", "warn", "error", "silent"] as LogLevel[];
+
+export type LogFields = {
+  vaultId?: string,
+  objectId?: string,
+  actionRef?: string,
+  transactionId?: string,
+  duration?: number, // in ms
+  error?: any,
+  [name: string]: any
+}
+
+export type LogRecord = {
+  timestamp: string,
+  level: LogLevel,
+  message: string,
+  fields: LogFields
+}
+
+export interface LogSink {
+  write(record: LogRecord): void
+}
+
+export type LoggerOptions = {
+  level?: LogLevel, // minimal level of the logged records (default to warn)
+  sinks?: LogSink[] // default to console
+}
+
+// field & tag names holding secrets
+const SENSITIVE_NAMES = /^(authorization|encrypted-?key|signature|x-amz-meta-encryptedkey)$/i;
+const REDACTED = "[REDACTED]";
+const MAX_DEPTH = 5;
+
+/**
+ * Writes records to the console, readable for humans
+ */
+export class ConsoleSink implements LogSink {
+  write(record: LogRecord) {
+    const fields = Object.keys(record.fields).length ? [record.fields] : [];
+    switch (record.level) {
+      case "error":
+        console.error(record.message, ...fields);
+        break;
+      case "warn":
+        console.warn(record.message, ...fields);
+        break;
+      case "info":
+        console.info(record.message, ...fields);
+        break;
+      default:
+        console.debug(record.message, ...fields);
+    }
+  }
+}
+
+/**
+ * Writes records as JSON lines, ex: for log collectors on servers
+ */
+export class JsonLinesSink implements LogSink {
+  private output: (line: string) => void;
+
+  /**
+   * @param  {(line:string)=>void} [output] default to stdout
+   */
+  constructor(output?: (line: string) => void) {
+    this.output = output || ((line: string) => process.stdout.write(line + "\n"));
+  }
+
+  write(record: LogRecord) {
+    this.output(JSON.stringify({ timestamp: record.timestamp, level: record.level, message: record.message, ...record.fields }));
+  }
+}
+
 export class Logger {
-  static debug: boolean = false;
+  // used where no client context is available
+  static default = new Logger();
 
-  static log = function (message: any) {
-    if (this.debug) {
-      console.debug(message);
+  private level: LogLevel;
+  private sinks: LogSink[];
+  private fields: LogFields;
+
+  constructor(options: LoggerOptions = {}, fields: LogFields = {}) {
+    this.level = options.level || "warn";
+    this.sinks = options.sinks || [new ConsoleSink()];
+    this.fields = fields;
+  }
+
+  /**
+   * @param  {LogFields} fields added to every record of the child logger
+   * @returns child logger sharing the level & sinks
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ level: this.level, sinks: this.sinks }, { ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level) && this.level !== "silent";
+  }
+
+  trace(message: string, fields?: LogFields) {
+    this.write("trace", message, fields);
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!this.isEnabled(level)) {
+      return;
     }
-  };
-}
\ No newline at end of file
+    const record = {
+      timestamp: new Date().toISOString(),
+      level: level,
+      message: message,
+      fields: redact({ ...this.fields, ...fields }, 0)
+    };
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        // logging should never break the client
+      }
+    }
+  }
+}
+
+const redact = (value: any, depth: number): any => {
+  if (value instanceof Error) {
+    const error = value as any;
+    return JSON.parse(JSON.stringify({
+      name: error.constructor?.name || error.name,
+      message: error.message,
+      code: error.code,
+      statusCode: error.statusCode || error.response?.status,
+      requestId: error.requestId,
+      stack: error.stack
+    }));
+  }
+  if (!value || typeof value !== "object" || depth > MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  // arweave tags: { name, value }
+  if (typeof value.name === "string" && "value" in value && SENSITIVE_NAMES.test(value.name)) {
+    return { ...value, value: REDACTED };
+  }
+  if (value.constructor !== Object) {
+    return value;
+  }
+  const redacted = {} as any;
+  for (const [name, fieldValue] of Object.entries(value)) {
+    redacted[name] = SENSITIVE_NAMES.test(name) ? REDACTED : redact(fieldValue, depth + 1);
+  }
+  return redacted;
+}
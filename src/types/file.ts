@@ -4,6 +4,7 @@ import { BinaryLike } from "crypto";
 import { Readable } from "stream";
 import { NotFound } from "../errors/not-found";
 import { BadRequest } from "../errors/bad-request";
+import { Logger } from "../logger";
 
 export namespace NodeJs {
   export class File extends Blob {
@@ -16,7 +17,7 @@ export namespace NodeJs {
         throw new BadRequest("File name is required, please provide it in the file options.");
       }
       if (!mimeType) {
-        console.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
+        Logger.default.warn("Missing file mime type. If this is unintentional, please provide it in the file options.");
       }
       this.name = name;
       this.lastModified = lastModified;
@@ -0,0 +1,48 @@
+export type FilterOperator = "eq" | "ne" | "in" | "gt" | "lt" | "beginsWith";
+
+export type FieldCondition<V> = {
+  eq?: V,
+  ne?: V,
+  in?: V[],
+  gt?: V,
+  lt?: V,
+  beginsWith?: string
+}
+
+// untyped if the fields are not specified, ex: ListOptions of the notifications
+export type Filter<F = any> = unknown extends F ? { [key: string]: any } : TypedFilter<F>;
+
+export type TypedFilter<F> = {
+  [K in keyof F]?: FieldCondition<F[K]>
+} & {
+  and?: TypedFilter<F>,
+  or?: TypedFilter<F>[]
+}
+
+export type NodeFilterFields = {
+  id: string,
+  status: string,
+  parentId: string,
+  owner: string,
+  createdAt: string,
+  updatedAt: string
+}
+
+export type MembershipFilterFields = {
+  id: string,
+  status: string,
+  role: string,
+  address: string,
+  owner: string,
+  email: string,
+  createdAt: string,
+  updatedAt: string
+}
+
+// vaults are filtered by the membership of the current user
+export type VaultFilterFields = {
+  status: string,
+  role: string,
+  createdAt: string,
+  updatedAt: string
+}
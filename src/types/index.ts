@@ -7,3 +7,5 @@ export * from "./vault";
 export * from "./udl";
 export * from "./nft";
 export * from "./asset";
+export * from "./notification";
+export * from "./filter";
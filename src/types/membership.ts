@@ -1,5 +1,6 @@
 import { Encryptable, EncryptedKeys } from "@akord/crypto";
 import { ProfileDetails } from "./profile-details";
+import { VerificationStatus } from "./object";
 
 export type RoleType = "VIEWER" | "CONTRIBUTOR" | "OWNER";
 export type StatusType = "ACCEPTED" | "PENDING" | "REVOKED" | "INVITED";
@@ -18,9 +19,12 @@ export class Membership extends Encryptable {
   email: string;
   memberPublicSigningKey: string;
   memberDetails: ProfileDetails;
+  searchIndex?: string; // id of the state with the encrypted search index of the member
 
   vaultId: string;
   keys: EncryptedKeys[];
+  verifiedBy?: string; // address of the member who signed the latest state
+  verificationStatus?: VerificationStatus; // set if the state verification is enabled
 
   // vault context
   __public__?: boolean;
@@ -43,6 +47,7 @@ export class Membership extends Encryptable {
     this.vaultId = membershipProto.vaultId;
     this.keys = membershipProto.keys;
     this.memberDetails = new ProfileDetails(membershipProto.memberDetails, keys);
+    this.searchIndex = membershipProto.searchIndex;
     this.__public__ = membershipProto.__public__;
     this.__cacheOnly__ = membershipProto.__cacheOnly__;
   }
@@ -3,6 +3,7 @@ import { status } from "../constants";
 import { NotFound } from "../errors/not-found";
 import { UDL } from "./udl";
 import { NFT } from "./nft";
+import { VerificationStatus } from "./object";
 
 export enum nodeType {
   STACK = "Stack",
@@ -24,6 +25,8 @@ export abstract class Node extends Encryptable {
   parentId?: string;
   data?: Array<string>;
   tags?: string[];
+  verifiedBy?: string; // address of the member who signed the latest state
+  verificationStatus?: VerificationStatus; // set if the state verification is enabled
 
   // vault context
   __public__?: boolean;
@@ -45,7 +48,7 @@ export abstract class Node extends Encryptable {
   }
 
   getVersion(index?: number): Version {
-    if (index) {
+    if (index !== undefined && index !== null) {
       if (this.versions && this.versions[index]) {
         return this.versions[index];
       } else {
@@ -198,5 +201,6 @@ export class NodeFactory {
 
 export enum StorageType {
   S3 = "s3:",
-  ARWEAVE = "arweave:"
+  ARWEAVE = "arweave:",
+  HASH = "hash:"
 }
@@ -1,3 +1,40 @@
+import { Encryptable, encrypted, EncryptedKeys } from "@akord/crypto";
+import { actionRefs } from "../constants";
+import { ObjectType } from "./object";
+
 export enum NotificationStatus {
   READ, UNREAD, DELETED
 };
+
+export type NotificationStatusType = keyof typeof NotificationStatus;
+
+export class Notification extends Encryptable {
+  id: string;
+  owner: string; // address of the user who triggered the notification
+  vaultId: string;
+  objectId: string;
+  objectType: ObjectType;
+  actionRef: actionRefs;
+  transactionId: string;
+  status: NotificationStatusType;
+  createdAt: string;
+  updatedAt: string;
+  @encrypted() vaultName: string;
+  @encrypted() objectName?: string;
+
+  constructor(notificationProto: any, keys?: Array<EncryptedKeys>) {
+    super(keys, null);
+    this.id = notificationProto.id;
+    this.owner = notificationProto.owner;
+    this.vaultId = notificationProto.vaultId;
+    this.objectId = notificationProto.objectId;
+    this.objectType = notificationProto.objectType;
+    this.actionRef = notificationProto.actionRef;
+    this.transactionId = notificationProto.transactionId;
+    this.status = notificationProto.status;
+    this.createdAt = notificationProto.createdAt;
+    this.updatedAt = notificationProto.updatedAt;
+    this.vaultName = notificationProto.vaultName;
+    this.objectName = notificationProto.objectName;
+  }
+}
@@ -5,4 +5,10 @@ import { Membership } from "./membership";
 
 export type Object = NodeLike | Vault | Membership;
 
-export type ObjectType = NodeType | "Vault" | "Membership" | "Profile";
\ No newline at end of file
+export type ObjectType = NodeType | "Vault" | "Membership" | "Profile";
+
+// result of the state signature verification: verified, signature missing or not checkable, signature invalid
+export type VerificationStatus = "VERIFIED" | "UNVERIFIED" | "INVALID";
+
+// off: states are trusted, report: verification status set on the objects, strict: objects with unverified state are rejected
+export type StateVerificationMode = "off" | "report" | "strict";
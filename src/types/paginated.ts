@@ -1,4 +1,4 @@
-import { AxiosResponse } from "axios"
+import { TransportResponse } from "../api/transport"
 
 const PAGINATION_HEADER = 'next-page'
 
@@ -8,10 +8,10 @@ export type Paginated<T> = {
   errors?: Array<{ id: string, error: Error }>
 }
 
-export const isPaginated = (response: AxiosResponse) => {
+export const isPaginated = (response: TransportResponse) => {
   return response.headers[PAGINATION_HEADER] !== undefined
 }
 
-export const nextToken = (response: AxiosResponse) => {
+export const nextToken = (response: TransportResponse) => {
   return response.headers[PAGINATION_HEADER] === "null" ? "" : response.headers[PAGINATION_HEADER]
 }
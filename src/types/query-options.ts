@@ -1,6 +1,8 @@
-export type ListOptions = {
+import { Filter } from "./filter";
+
+export type ListOptions<F = any> = {
   shouldDecrypt?: boolean,
-  filter?: Object,
+  filter?: Filter<F>, // see FilterBuilder
   limit?: number, // the limit of the number of items in a query (default to 100)
   nextToken?: string,
   parentId?: string,
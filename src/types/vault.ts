@@ -1,6 +1,7 @@
 import { Encryptable, encrypted, EncryptedKeys } from "@akord/crypto";
 import { Membership } from "./membership";
 import { Folder, Memo, NodeLike, Stack } from "./node";
+import { VerificationStatus } from "./object";
 
 export class Vault extends Encryptable {
   id: string;
@@ -14,6 +15,8 @@ export class Vault extends Encryptable {
   cacheOnly?: boolean;
   tags?: string[];
   termsOfAccess?: string;
+  verifiedBy?: string; // address of the member who signed the latest state
+  verificationStatus?: VerificationStatus; // set if the state verification is enabled
   @encrypted() name: string;
   @encrypted() description?: string;
 